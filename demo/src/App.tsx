@@ -1,7 +1,7 @@
 import React from 'react';
-import { KeyboardControls, OrbitControls } from "@react-three/drei"
+import { OrbitControls } from "@react-three/drei"
 import { Canvas } from "@react-three/fiber"
-import { Player } from "tps-controls"
+import { KeyBindingsMenu, Player, createBindingsStore } from "tps-controls"
 import { Physics } from '@react-three/rapier';
 import { Environment } from './Environment';
 import { InfluenceZoneProvider } from './context/InfluenceZoneContext';
@@ -18,8 +18,12 @@ const getAssetPath = (path: string) => {
   return base + path.replace(/^\//, '')
 }
 
+// Remappable controls, saved to localStorage between visits
+const bindings = createBindingsStore();
+
 function App() {
   const playerRigidBodyRef = React.useRef(null);
+  const [showControls, setShowControls] = React.useState(false);
 
   return (
     <InfluenceZoneProvider>
@@ -46,16 +50,16 @@ function App() {
             backgroundPosition: 'center'
           }}
         />
-    <KeyboardControls 
-        map={React.useMemo(() => [
-            { name: 'forward', keys: ['ArrowUp', 'w'] },
-            { name: 'backward', keys: ['ArrowDown', 's'] },
-            { name: 'run', keys: ['Shift'] },
-            { name: 'left', keys: ['ArrowLeft', 'a'] },
-            { name: 'right', keys: ['ArrowRight', 'd'] },
-            { name: 'jump', keys: ['Space'] },
-        ], [])}
-    >
+        <button
+          style={{ position: 'absolute', top: 10, right: 10, zIndex: 1000 }}
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowControls(value => !value);
+          }}
+        >
+          Controls
+        </button>
+        {showControls && <KeyBindingsMenu store={bindings} onClose={() => setShowControls(false)} />}
       <Canvas 
         style={{ height: '100vh', width: '100vw', margin: '0' }} 
         camera={{zoom: 2}}
@@ -87,10 +91,10 @@ function App() {
           <Player 
             castShadow 
             receiveShadow 
+            bindings={bindings}
           />
         </Physics>
       </Canvas>
-    </KeyboardControls>
             </div>
           </PlayerProvider>
         </PaleobotanyEducationProvider>
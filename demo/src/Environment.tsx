@@ -1,4 +1,4 @@
-import { RigidBody } from '@react-three/rapier';
+import { CylinderCollider, RigidBody } from '@react-three/rapier';
 import { Text } from '@react-three/drei';
 import { useFrame } from '@react-three/fiber';
 import { useRef, useState, useEffect } from 'react';
@@ -361,14 +361,23 @@ export function Environment() {
       </RigidBody> 
      
 
+      {/* Ice sheet - a low-friction collider, which the player's locomotion reads as poor traction */}
+      <RigidBody position={[0, 0.005, -8]} type="fixed" colliders={false} friction={0.05}>
+        <CylinderCollider args={[0.005, 3]} />
+        <mesh receiveShadow>
+          <cylinderGeometry args={[3, 3, 0.01, 48]} />
+          <meshStandardMaterial color={'#cfeefa'} roughness={0.1} />
+        </mesh>
+      </RigidBody>
+
       {/* Target 2 - Moving Target */}
       <MovingPlatform position={[8, 0, -15]} color="brown" />
 
 
       {/* Platforms and Obstacles - Adjusted for 0.5 unit jump height */}
       
-      {/* Platform 1 - Low platform (jumpable) */}
-      <RigidBody position={[15, 0.4, 10]} type="fixed" colliders="cuboid">
+      {/* Platform 1 - Low platform (jumpable), iced over under the alpine ice zone */}
+      <RigidBody position={[15, 0.4, 10]} type="fixed" colliders="cuboid" friction={0.05}>
         <mesh castShadow receiveShadow>
           <boxGeometry args={[6, 0.3, 6]} />
           <meshStandardMaterial color={'#2d3748'} />
@@ -0,0 +1,45 @@
+import React, { useImperativeHandle, useRef } from 'react'
+import * as THREE from 'three'
+import { useGLTF } from '@react-three/drei'
+import { SkeletonUtils } from 'three-stdlib'
+import type { FirstPersonArmsHandle, FirstPersonArmsProps, GLTFResult } from './modules/player/types'
+import { findRig } from './modules/player/bones'
+import { DEFAULT_FIRST_PERSON_CONFIG, pairArmsBones, poseArmsRig } from './modules/player/firstPerson'
+
+// An arms rig drawn in front of the first-person camera. The player calls update after
+// moving the camera, so the arms neither trail the view nor the character's pose by a frame.
+export const FirstPersonArms = React.forwardRef<FirstPersonArmsHandle, FirstPersonArmsProps>(function FirstPersonArms({
+  modelPath,
+  bones,
+  boneMap,
+  offset = DEFAULT_FIRST_PERSON_CONFIG.armsOffset,
+  scale = DEFAULT_FIRST_PERSON_CONFIG.armsScale,
+}, ref) {
+  const group = useRef<THREE.Group>(null)
+  const { scene } = useGLTF(modelPath) as unknown as GLTFResult
+  const clone = React.useMemo(() => {
+    const arms = SkeletonUtils.clone(scene)
+    // Skinned bounds don't follow the copied pose, and the rig is always in view anyway
+    arms.traverse(object => {
+      object.frustumCulled = false
+    })
+    return arms
+  }, [scene])
+  const pairs = React.useMemo(() => pairArmsBones(findRig(clone).bones, bones, boneMap), [clone, bones, boneMap])
+
+  useImperativeHandle(ref, () => ({
+    update(camera: THREE.Camera) {
+      if (!group.current) return
+      group.current.position.copy(camera.position)
+      group.current.quaternion.copy(camera.quaternion)
+      poseArmsRig(pairs)
+    },
+  }), [pairs])
+
+  // The camera looks down -z and characters face +z, so the rig is turned around
+  return (
+    <group ref={group}>
+      <primitive object={clone} position={offset} rotation={[0, Math.PI, 0]} scale={scale} />
+    </group>
+  )
+})
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react'
+import type { BindingConflict, InputBinding, KeyBindingsMenuProps } from './modules/player/types'
+import { captureNextBinding, describeBinding, useBindings } from './modules/player/bindings'
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  width: 480,
+  maxHeight: '80vh',
+  overflowY: 'auto',
+  padding: 16,
+  borderRadius: 8,
+  background: 'rgba(0, 0, 0, 0.8)',
+  color: 'white',
+  font: '13px sans-serif',
+  zIndex: 2000,
+}
+
+const slotStyle: React.CSSProperties = {
+  minWidth: 72,
+  margin: '0 4px 4px 0',
+  padding: '4px 8px',
+  borderRadius: 4,
+  border: '1px solid rgba(255, 255, 255, 0.4)',
+  background: 'rgba(255, 255, 255, 0.1)',
+  color: 'white',
+  font: 'inherit',
+  cursor: 'pointer',
+}
+
+const linkStyle: React.CSSProperties = {
+  ...slotStyle,
+  minWidth: 0,
+  border: 'none',
+  background: 'none',
+  opacity: 0.7,
+}
+
+// Splits camelCase action names into words, e.g. switchFireMode -> Switch Fire Mode
+const formatAction = (action: string) =>
+  action.replace(/([a-z])([A-Z0-9])/g, '$1 $2').replace(/^./, c => c.toUpperCase())
+
+/**
+ * Drop-in rebinding menu for a BindingsStore: click a binding and press the new
+ * key, mouse button or gamepad input. Escape cancels a capture.
+ */
+export function KeyBindingsMenu({ store, actions, labels = {}, style, onClose }: KeyBindingsMenuProps) {
+  const bindings = useBindings(store)
+  const [capturing, setCapturing] = useState<{ action: string; index: number } | null>(null)
+  const [pending, setPending] = useState<{ action: string; index: number; binding: InputBinding; conflicts: BindingConflict[] } | null>(null)
+  const [importText, setImportText] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const cancelCapture = useRef<(() => void) | null>(null)
+
+  const actionList = actions ?? Object.keys(store.defaults)
+  const label = (action: string) => labels[action] ?? formatAction(action)
+
+  useEffect(() => {
+    if (!capturing) return
+
+    const { promise, cancel } = captureNextBinding()
+    cancelCapture.current = cancel
+    promise.then((binding) => {
+      cancelCapture.current = null
+      setCapturing(null)
+      if (!binding) return
+
+      const conflicts = store.findConflicts(binding, capturing.action)
+      if (conflicts.length > 0) setPending({ ...capturing, binding, conflicts })
+      else store.rebind(capturing.action, capturing.index, binding)
+    })
+
+    return cancel
+  }, [capturing, store])
+
+  const resolvePending = (unbindConflicts: boolean) => {
+    if (pending) store.rebind(pending.action, pending.index, pending.binding, { unbindConflicts })
+    setPending(null)
+  }
+
+  const applyImport = () => {
+    try {
+      store.importJSON(importText ?? '')
+      setImportText(null)
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return (
+    <div
+      style={{ ...panelStyle, ...style }}
+      // Keep menu clicks away from the game's pointer lock and fire listeners
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 12 }}>
+        <strong style={{ fontSize: 16 }}>Controls</strong>
+        {onClose && <button style={linkStyle} onClick={onClose}>Close</button>}
+      </div>
+
+      {pending && (
+        <div style={{ marginBottom: 12, padding: 8, borderRadius: 4, background: 'rgba(255, 165, 0, 0.25)' }}>
+          {describeBinding(pending.binding)} is already used by {pending.conflicts.map(c => label(c.action)).join(', ')}.
+          <div style={{ marginTop: 8 }}>
+            <button style={slotStyle} onClick={() => resolvePending(true)}>Replace</button>
+            <button style={slotStyle} onClick={() => resolvePending(false)}>Keep both</button>
+            <button style={slotStyle} onClick={() => setPending(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {actionList.map(action => {
+        const list = bindings[action] ?? []
+        return (
+          <div key={action} style={{ display: 'flex', alignItems: 'baseline', padding: '4px 0', borderTop: '1px solid rgba(255, 255, 255, 0.1)' }}>
+            <span style={{ width: 140, flexShrink: 0 }}>{label(action)}</span>
+            <div style={{ flex: 1 }}>
+              {list.map((binding, index) => {
+                const active = capturing?.action === action && capturing.index === index
+                const shared = store.findConflicts(binding, action).length > 0
+                return (
+                  <span key={index} style={{ whiteSpace: 'nowrap' }}>
+                    <button
+                      style={{ ...slotStyle, borderColor: shared ? 'orange' : 'rgba(255, 255, 255, 0.4)' }}
+                      title={shared ? 'Also bound to another action' : 'Click to rebind'}
+                      onClick={() => setCapturing({ action, index })}
+                    >
+                      {active ? 'Press a key…' : describeBinding(binding)}
+                    </button>
+                    <button style={linkStyle} title="Remove" onClick={() => store.unbind(action, index)}>×</button>
+                  </span>
+                )
+              })}
+              <button style={slotStyle} onClick={() => setCapturing({ action, index: list.length })}>
+                {capturing?.action === action && capturing.index === list.length ? 'Press a key…' : '+'}
+              </button>
+            </div>
+            <button style={linkStyle} onClick={() => store.resetAction(action)}>Reset</button>
+          </div>
+        )
+      })}
+
+      <div style={{ marginTop: 12, display: 'flex', gap: 4 }}>
+        <button style={slotStyle} onClick={() => store.resetAll()}>Reset all</button>
+        <button style={slotStyle} onClick={() => setImportText(store.exportJSON())}>Export / import</button>
+      </div>
+
+      {importText !== null && (
+        <div style={{ marginTop: 8 }}>
+          <textarea
+            style={{ width: '100%', height: 160, boxSizing: 'border-box', font: '12px monospace' }}
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+          />
+          {importError && <div style={{ color: 'tomato' }}>{importError}</div>}
+          <button style={slotStyle} onClick={applyImport}>Import</button>
+          <button style={slotStyle} onClick={() => setImportText(null)}>Done</button>
+        </div>
+      )}
+    </div>
+  )
+}
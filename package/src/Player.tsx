@@ -4,35 +4,60 @@ Command: npx gltfjsx@6.5.3 public/models/player.glb -o src/app/components/Player
 */
 
 import * as THREE from 'three'
-import React, { useEffect, useRef } from 'react'
-import { useFrame, useGraph } from '@react-three/fiber'
-import { useGLTF, useKeyboardControls, PositionalAudio } from '@react-three/drei'
+import React, { Suspense, useEffect, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { useGLTF, useKeyboardControls, PositionalAudio, Html } from '@react-three/drei'
 import { SkeletonUtils } from 'three-stdlib'
-import { CapsuleCollider, RapierRigidBody, RigidBody, useRapier } from '@react-three/rapier'
-import RAPIER from '@dimforge/rapier3d-compat'
+import { CapsuleCollider, RapierCollider, RapierRigidBody, RigidBody, useRapier } from '@react-three/rapier'
 
 // Import modular functions and types
-import type { GLTFResult, PlayerProps } from './modules/player/types'
+import type { AmmoInfo, AmmoState, CameraMode, FirstPersonArmsHandle, GLTFResult, PlayerProps, Stance, WeaponDefinition } from './modules/player/types'
 import { useAnimationSetup } from './modules/player/useAnimationSetup'
-import { handleMovement } from './modules/player/movement'
-import { handleJump } from './modules/player/jump'
+import { createAnimationStateMachine } from './modules/player/animationStateMachine'
+import { createAimOffsetClips, createDeathClip, createRecoilClip, createReloadClip, createStanceClips } from './modules/player/proceduralClips'
+import { DEFAULT_BONE_MAP, describeMissingBones, findRig, resolveBones } from './modules/player/bones'
+import { DEFAULT_JUMP_CONFIG, createJumpState, handleJump } from './modules/player/jump'
+import { DEFAULT_LOCOMOTION_CONFIG } from './modules/player/locomotion'
+import { DEFAULT_IK_CONFIG, createIKState, handleIK, restoreIKPose } from './modules/player/ik'
 import { handleRecoil } from './modules/player/recoil'
 import { handleMuzzleFlash } from './modules/player/muzzleFlash'
-import { updateCamera } from './modules/player/camera'
-import { updateMovementPhysics } from './modules/player/physics'
+import { createCameraCollisionState, createShoulderState, resolveCameraRig, swapShoulder, updateCamera } from './modules/player/camera'
+import { DEFAULT_FIRST_PERSON_CONFIG, setHeadHidden, updateFirstPersonCamera } from './modules/player/firstPerson'
+import { DEFAULT_OCCLUSION_CONFIG, createOcclusionState, handleOcclusion, restoreOccluders } from './modules/player/occlusion'
+import { getLocalVelocity, getMoveVelocity, updateMovementPhysics } from './modules/player/physics'
+import { DEFAULT_GROUND_CONFIG, createGroundInfo, detectGround, handleStepUp } from './modules/player/ground'
+import { DEFAULT_KINEMATIC_CONFIG, createKinematicState, updateKinematicMovement, useCharacterController } from './modules/player/kinematic'
 import { handleShooting } from './modules/player/shooting'
 import { createMuzzleFlashTexture } from './modules/player/textures'
-import { MOUSE_SENSITIVITY, MUZZLE_FLASH_LIGHT_DISTANCE } from './modules/player/constants'
+import { DEFAULT_WEAPON } from './modules/player/weapons'
+import { createTriggerState, cycleFireMode, handleFireControl } from './modules/player/fireControl'
+import { cancelReload, consumeRound, createAmmoState, handleReload, startReload } from './modules/player/ammo'
+import { createHealthStore, handleHealth } from './modules/player/health'
+import { createStaminaStore } from './modules/player/stamina'
+import { createInputManager } from './modules/player/input'
+import { resolveTouchControls } from './modules/player/touch'
+import { DEFAULT_STANCE_CONFIG, createStanceState, getFeetHeight, getStanceCollider, getStanceSettings, handleStance } from './modules/player/stance'
+import { ANALOG_MOVE_THRESHOLD, MOVE_SPEED } from './modules/player/constants'
+import { TouchControls } from './TouchControls'
+import { FirstPersonArms } from './FirstPersonArms'
 import './utils/preload' // Import to trigger preloading
 
 // CDN-based default assets for zero-friction integration
 const CDN_BASE = 'https://cdn.jsdelivr.net/npm/tps-controls@latest/public';
 
+// Html's fullscreen offset puts the overlay's top-left corner at the canvas' own
+const centerOverlay = (_el: THREE.Object3D, _camera: THREE.Camera, size: { width: number; height: number }) =>
+  [size.width / 2, size.height / 2];
+
 // Modify the Player component signature
 export function Player({
   modelPath = `${CDN_BASE}/models/player.glb`,
   animationPaths,
   audioPath = `${CDN_BASE}/sfx/pistol-shot.mp3`,
+  animator,
+  boneMap,
+  modelScale = 0.01,
+  retargetAnimations,
   colliderArgs = [0.5, 0.3],
   mass = 5,
   restitution = 0.3,
@@ -41,85 +66,268 @@ export function Player({
   angularDamping = 0.1,
   castShadow = false,
   receiveShadow = false,
+  weapons,
+  initialWeapon = 0,
+  onWeaponChange,
+  onFireModeChange,
+  onAmmoChange,
+  onReloadStart,
+  onReloadEnd,
+  onHit,
+  team,
+  health,
+  spawnPoint,
+  onDeath,
+  onRespawn,
+  input,
+  bindings,
+  touchControls = 'auto',
+  touchOptions,
+  stamina,
+  staminaOptions,
+  stances,
+  onStanceChange,
+  controllerMode = 'dynamic',
+  kinematicOptions,
+  groundOptions,
+  jumpOptions,
+  locomotionOptions,
+  ikOptions,
+  cameraRig,
+  cameraMode = 'third-person',
+  firstPersonOptions,
+  onCameraModeChange,
+  occlusionOptions,
   ...props 
 }: PlayerProps) {
+  const root = React.useRef<THREE.Group>(null)
   const group = React.useRef<THREE.Group>(null)
   const mouseRotationRef = React.useRef({x: 0, y: 0});
-  const { scene } = useGLTF(modelPath) as unknown as GLTFResult
+  const { scene, animations: embeddedClips } = useGLTF(modelPath) as unknown as GLTFResult
   const clone = React.useMemo(() => SkeletonUtils.clone(scene), [scene])
-  const { nodes, materials } = useGraph(clone) as unknown as GLTFResult
+
+  // Bones are found by name, so rigs with other bone orders or names work through boneMap
+  const rig = React.useMemo(() => findRig(clone), [clone])
+  const resolvedBoneMap = React.useMemo(() => ({ ...DEFAULT_BONE_MAP, ...boneMap }), [boneMap])
+  const skeleton = React.useMemo(() => resolveBones(rig.bones, resolvedBoneMap), [rig, resolvedBoneMap])
+  useEffect(() => {
+    if (skeleton.missing.length > 0) console.warn(describeMissingBones(skeleton, resolvedBoneMap, rig.bones))
+  }, [skeleton, resolvedBoneMap, rig])
+
+  // Weapon loadout - falls back to the default pistol with the configured audio
+  const loadout = React.useMemo(
+    () => weapons && weapons.length > 0 ? weapons : [{ ...DEFAULT_WEAPON, shotSound: audioPath }],
+    [weapons, audioPath]
+  );
+  const [weaponIndex, setWeaponIndex] = React.useState(initialWeapon);
+  const weapon = loadout[Math.min(weaponIndex, loadout.length - 1)];
+  const trigger = useRef(createTriggerState());
+
+  // Ammo is tracked per weapon id so switching keeps each magazine's state
+  const ammoStates = useRef<Record<string, AmmoState>>({});
+  const lastAmmoInfo = useRef<AmmoInfo | null>(null);
+  // Health - use the caller's store so HUDs can subscribe to it, or own one
+  const healthStore = React.useMemo(() => health ?? createHealthStore(), [health]);
+  const wasDead = useRef(false);
+  const isDead = () => healthStore.getState().dead;
+
+  // Stamina - same pattern as health, with rates from staminaOptions
+  const staminaStore = React.useMemo(() => stamina ?? createStaminaStore(), [stamina]);
+  useEffect(() => {
+    if (staminaOptions) staminaStore.setConfig(staminaOptions);
+  }, [staminaStore, staminaOptions]);
+
+  // Exposes health and team through the onHit userData convention, so other
+  // players' shots damage this player through its health store
+  const bodyUserData = React.useMemo(() => ({
+    team,
+    get health() {
+      return healthStore.getState().health;
+    },
+    set health(value: number) {
+      healthStore.applyDamage(healthStore.getState().health - value);
+    },
+  }), [healthStore, team]);
+
+  const getAmmo = (w: WeaponDefinition) => {
+    if (!ammoStates.current[w.id]) {
+      ammoStates.current[w.id] = createAmmoState(w);
+    }
+    return ammoStates.current[w.id];
+  };
+
+  const weaponAnimationPaths = React.useMemo(() => ({
+    ...animationPaths,
+    ...weapon.animations,
+  }), [animationPaths, weapon.animations]);
   
-  // Use the modular animation setup with custom paths
-  const { actions, mixer, animationClips } = useAnimationSetup(clone, animationPaths);
+  // Use the modular animation setup with custom paths. Clips are retargeted against the
+  // unanimated model, as the clone's bones are posed by the mixer.
+  const { mixer, animationClips } = useAnimationSetup(clone, weaponAnimationPaths, {
+    embeddedClips,
+    rest: scene,
+    boneMap: resolvedBoneMap,
+    retarget: retargetAnimations,
+  });
   
+  // Stances - the stance lives in state so the collider re-renders at the new size
+  const stanceConfig = React.useMemo(() => ({ ...DEFAULT_STANCE_CONFIG, ...stances }), [stances]);
+  const stanceState = useRef(createStanceState());
+  const [stance, setStance] = React.useState<Stance>('standing');
+  const crouchHeldRef = useRef(false);
+  const proneHeldRef = useRef(false);
+  const stanceCollider = getStanceCollider(colliderArgs, getStanceSettings(stanceConfig, stance).heightScale);
+
   const [wait, setWait] = React.useState(false);
   const [isJumping, setIsJumping] = React.useState(false);
   const jumpPressedRef = useRef(false);
-  const shoot = useRef<boolean>(false);
+  const shoot = useRef(0);
   const zoom  =  useRef<boolean>(false);
   const shotSfxRef = useRef<THREE.PositionalAudio>(null);
-  const leftHandBone = useRef<THREE.Bone | null>(null);
-  const rightHandBone = useRef<THREE.Bone | null>(null);
-  const rightPalmBone = useRef<THREE.Bone | null>(null);
+  const dryFireSfxRef = useRef<THREE.PositionalAudio>(null);
   const recoilActive = useRef(false);
   const recoilStartTime = useRef(0);
-  const leftHandOriginalRotation = useRef(new THREE.Euler());
-  const rightHandOriginalRotation = useRef(new THREE.Euler());
   const muzzleFlashRef = useRef<THREE.Mesh>(null);
   const muzzleFlashLightRef = useRef<THREE.PointLight>(null);
   const muzzleFlashActive = useRef(false);
   const muzzleFlashStartTime = useRef(0);
   const gunBarrelRef = useRef<THREE.Vector3>(new THREE.Vector3());
 
-  // Create procedural muzzle flash texture
-  const muzzleFlashTexture = React.useMemo(() => createMuzzleFlashTexture(), []);
+  // Use the weapon's muzzle flash texture, or create the procedural one
+  const flashTextureSource = weapon.muzzleFlash.texture;
+  const muzzleFlashTexture = React.useMemo(() => {
+    if (typeof flashTextureSource === 'string') {
+      return new THREE.TextureLoader().load(flashTextureSource);
+    }
+    return flashTextureSource ?? createMuzzleFlashTexture();
+  }, [flashTextureSource]);
+
+  // Animation - the state machine picks clips from the frame's context, the mixer plays them
+  const animationStateMachine = React.useMemo(() => animator ?? createAnimationStateMachine(), [animator]);
+
+  // Aim offset, recoil, reload, death and stance clips are generated for the skeleton unless animationPaths provides them
+  const clips = React.useMemo(() => {
+    const { hips, chest, leftHand, rightHand } = skeleton.bones;
+    const { idle } = animationClips;
+    return {
+      ...(chest ? createAimOffsetClips(chest.name) : {}),
+      ...(leftHand && rightHand ? { recoil: createRecoilClip(leftHand.name, rightHand.name) } : {}),
+      ...(idle && chest ? { reload: createReloadClip(idle, chest) } : {}),
+      ...(idle && hips ? { death: createDeathClip(idle, hips) } : {}),
+      ...createStanceClips(animationClips, skeleton.bones),
+      ...animationClips,
+    };
+  }, [skeleton, animationClips]);
 
-  // Setup actions with the mixer and clips
   useEffect(() => {
-    if (group.current && mixer && animationClips.length > 0) {
-      actions[0] = mixer.clipAction(animationClips[0], group.current);
-      actions[1] = mixer.clipAction(animationClips[1], group.current);
-      actions[2] = mixer.clipAction(animationClips[2], group.current);
-      actions[3] = mixer.clipAction(animationClips[3], group.current);
-      actions[4] = mixer.clipAction(animationClips[4], group.current);
-      actions[5] = mixer.clipAction(animationClips[5], group.current);
-      actions[6] = mixer.clipAction(animationClips[6], group.current);
-      actions[7] = mixer.clipAction(animationClips[7], group.current);
-      actions[8] = mixer.clipAction(animationClips[8], group.current);
-
-      actions[0].play();
+    if (group.current && mixer) {
+      return animationStateMachine.bind(mixer, group.current, clips);
     }
-  }, [mixer, animationClips, actions]);
+  }, [mixer, clips, animationStateMachine]);
 
-  const [action, setAction] = React.useState<THREE.AnimationAction | null>(actions[0])
+  // A surrounding KeyboardControls provider is optional now that input goes through the manager,
+  // drei throws while destructuring the missing context so fall back to an empty state
+  let get: () => Partial<Record<string, boolean>> = () => ({});
+  try {
+    [, get] = useKeyboardControls();
+  } catch {
+    // No provider
+  }
 
-  const [_, get] = useKeyboardControls();
+  // Input - the caller's manager (e.g. for synthetic input) or one owned by the player
+  const inputManager = React.useMemo(() => input ?? createInputManager(), [input]);
 
-  // Play the right animation based on the action state
-  useEffect(() => {
-    if (action) {
-      action.reset().fadeIn(0.1).play();
+  useEffect(() => inputManager.attach(), [inputManager]);
+
+  useEffect(() => bindings?.attachInput(inputManager), [bindings, inputManager]);
+
+  // Touch devices get on-screen controls instead of pointer lock
+  const touchMode = React.useMemo(() => resolveTouchControls(touchControls), [touchControls]);
+
+  const beginReload = () => {
+    if (startReload(getAmmo(weapon), weapon)) {
+      animationStateMachine.getActions('reload').forEach(action => action.setDuration(weapon.reloadTime / 1000));
+      onReloadStart?.(weapon);
+    }
+  }
+
+  // Fires a single round: consumes ammo and starts sound, recoil and muzzle flash
+  const fireShot = () => {
+    if (!consumeRound(getAmmo(weapon))) return false;
+
+    shoot.current += 1;
+    if (shotSfxRef.current?.isPlaying) shotSfxRef.current.stop();
+    shotSfxRef.current?.play();
 
-      return () => {
-        action.fadeOut(0.1);
+    // Start recoil and the upper-body fire clip
+    recoilActive.current = true;
+    recoilStartTime.current = Date.now();
+    animationStateMachine.trigger('fire');
+
+    // Trigger muzzle flash
+    muzzleFlashActive.current = true;
+    muzzleFlashStartTime.current = Date.now();
+
+    return true;
+  }
+
+  const switchWeapon = (slot: number) => {
+    if (slot < 0 || slot >= loadout.length || slot === weaponIndex) return;
+
+    // Switching weapons interrupts a running reload
+    if (cancelReload(getAmmo(weapon))) {
+      onReloadEnd?.(weapon, false);
+    }
+    trigger.current = { ...createTriggerState(), held: trigger.current.held };
+    setWeaponIndex(slot);
+    onWeaponChange?.(loadout[slot], slot);
+  }
+
+  // Weapon actions: trigger, reload, fire mode and weapon selection
+  const handleWeaponInput = () => {
+    trigger.current.held = inputManager.isDown('fire');
+
+    // Pressing the trigger only latches it; shots are fired by the fire control
+    if (inputManager.wasPressed('fire')) {
+      trigger.current.pressed = true;
+
+      const ammo = getAmmo(weapon);
+      if (ammo.magazine <= 0 && !ammo.reloading) {
+        if (dryFireSfxRef.current?.isPlaying) dryFireSfxRef.current.stop();
+        dryFireSfxRef.current?.play();
+        if (weapon.autoReload ?? true) beginReload();
       }
     }
-  }, [action])
 
-  // PointerLock and mouse movement handling
-  useEffect(() => {
-    const handleMouseMove = (event: MouseEvent) => {
-      if(document.pointerLockElement) {
-        mouseRotationRef.current.x += event.movementX * MOUSE_SENSITIVITY;
-        mouseRotationRef.current.y += event.movementY * MOUSE_SENSITIVITY;
+    zoom.current = inputManager.isDown('aim');
 
-        const elevation = -Math.PI/5;
-        const depression = Math.PI/3;
+    if (inputManager.wasPressed('reload')) {
+      beginReload();
+    }
 
-        mouseRotationRef.current.y = Math.max(elevation, Math.min(depression, mouseRotationRef.current.y)); // Clamp vertical rotation
+    if (inputManager.wasPressed('switchFireMode')) {
+      const previousMode = trigger.current.modeIndex;
+      const mode = cycleFireMode(trigger.current, weapon);
+      if (trigger.current.modeIndex !== previousMode) {
+        onFireModeChange?.(mode, weapon);
       }
     }
 
+    for (let slot = 0; slot < 9; slot++) {
+      if (inputManager.wasPressed(`weapon${slot + 1}`)) switchWeapon(slot);
+    }
+    if (inputManager.wasPressed('nextWeapon')) {
+      switchWeapon((weaponIndex + 1) % loadout.length);
+    }
+    if (inputManager.wasPressed('previousWeapon')) {
+      switchWeapon((weaponIndex - 1 + loadout.length) % loadout.length);
+    }
+  }
+
+  // PointerLock handling
+  useEffect(() => {
+    if (touchMode) return;
+
     const handleCanvasClick = () => {
       if(document.pointerLockElement === null) {
         document.body.requestPointerLock();
@@ -132,64 +340,18 @@ export function Player({
       }
     }
 
-    // Modify the handleMouseDown function to trigger muzzle flash
-    const handleMouseDown = (e: MouseEvent) => {
-      if (!shoot.current && e.button === 0) { // Left mouse button
-        shoot.current = true;
-        shotSfxRef.current?.play();
-        // Trigger recoil effect
-        if (leftHandBone.current && rightHandBone.current) {
-          // Store original rotations
-          leftHandOriginalRotation.current.copy(leftHandBone.current.rotation);
-          rightHandOriginalRotation.current.copy(rightHandBone.current.rotation);
-          
-          // Start recoil
-          recoilActive.current = true;
-          recoilStartTime.current = Date.now();
-        }
-
-        // Trigger muzzle flash
-        muzzleFlashActive.current = true;
-        muzzleFlashStartTime.current = Date.now();
-
-        setTimeout(() => {
-          shoot.current = false;
-        }, 100); // Reset shoot after 100ms
-      } else if ( e.button === 2) { // Right mouse button
-        if (!zoom.current) {
-          // Zoom in
-          zoom.current = true;
-        }
-      }
-    }
-
-    const handleMouseUp = (e: MouseEvent) => {
-      if(e.button === 2) { // Right mouse button
-        // Zoom out
-        zoom.current = false;
-      }
-    }
-      
-    document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('click', handleCanvasClick);
     document.addEventListener('keydown', handleEscapeHit);
-    document.addEventListener('mousedown', handleMouseDown);
-    document.addEventListener('mouseup', handleMouseUp);
 
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('click', handleCanvasClick);
       document.removeEventListener('keydown', handleEscapeHit);
-      document.removeEventListener('mousedown', handleMouseDown);
-      document.removeEventListener('mouseup', handleMouseUp);
     }
-  })
+  }, [touchMode])
 
   // Get the reference to the RapierRigidBody
   const controls = useRef<RapierRigidBody>(null);
-
-  // Get bones from the skeleton
-  const bones = nodes.Alpha_Joints.skeleton.bones;
+  const colliderRef = useRef<RapierCollider>(null);
 
   // Add smoothing references
   const smoothedPlayerPosition = useRef(new THREE.Vector3());
@@ -201,75 +363,195 @@ export function Player({
 
   const rapier = useRapier();
 
+  // Kinematic mode moves a kinematic body through Rapier's character controller instead of setting velocities
+  const kinematic = controllerMode === 'kinematic';
+  const kinematicConfig = React.useMemo(() => ({ ...DEFAULT_KINEMATIC_CONFIG, ...kinematicOptions }), [kinematicOptions]);
+  const characterController = useCharacterController(rapier.world, kinematic, kinematicConfig);
+  const kinematicState = useRef(createKinematicState());
+
+  // Ground probing for dynamic mode
+  const groundConfig = React.useMemo(() => ({ ...DEFAULT_GROUND_CONFIG, ...groundOptions }), [groundOptions]);
+  const ground = useRef(createGroundInfo());
+
+  const jumpConfig = React.useMemo(() => ({ ...DEFAULT_JUMP_CONFIG, ...jumpOptions }), [jumpOptions]);
+  const jumpState = useRef(createJumpState());
+
+  const locomotionConfig = React.useMemo(() => ({ ...DEFAULT_LOCOMOTION_CONFIG, ...locomotionOptions }), [locomotionOptions]);
+
+  // Camera framing - changing the preset or options moves the camera smoothly to the new rig
+  const cameraRigConfig = React.useMemo(() => resolveCameraRig(cameraRig), [cameraRig]);
+  const shoulder = useRef(createShoulderState());
+  const cameraCollision = useRef(createCameraCollisionState());
+
+  // First person - the view lives in state as it changes what is drawn
+  const [activeCameraMode, setActiveCameraMode] = React.useState<CameraMode>(cameraMode);
+  useEffect(() => setActiveCameraMode(cameraMode), [cameraMode]);
+  const firstPerson = activeCameraMode === 'first-person';
+  const firstPersonConfig = React.useMemo(() => ({ ...DEFAULT_FIRST_PERSON_CONFIG, ...firstPersonOptions }), [firstPersonOptions]);
+  const headHidden = useRef(false);
+  const armsRef = useRef<FirstPersonArmsHandle>(null);
+
+  // Occlusion - walls between the camera and the player pull the camera in, or fade out
+  const occlusionConfig = React.useMemo(() => ({ ...DEFAULT_OCCLUSION_CONFIG, ...occlusionOptions }), [occlusionOptions]);
+  const occlusionState = useRef(createOcclusionState());
   useEffect(() => {
-    if (bones.length > 0) {
-      // Find hand bones in the skeleton
-      leftHandBone.current = bones[8];
-      rightHandBone.current = bones[32]; 
-      rightPalmBone.current = bones[39]; // Right Index Finger
-
-      // Log bone names to help identify the correct hand bones
-      console.log('Available bones:', bones.map((bone: THREE.Bone) => bone.name));
-    }
-  }, [bones]);
+    const occluders = occlusionState.current;
+    return () => restoreOccluders(occluders);
+  }, []);
+
+  // IK corrects the animated pose after the mixer, aiming at a point along the camera's view
+  const ikConfig = React.useMemo(() => ({ ...DEFAULT_IK_CONFIG, ...ikOptions }), [ikOptions]);
+  const ikState = useRef(createIKState());
+  const ikAimPoint = useRef(new THREE.Vector3());
 
   useFrame((state, delta) => {
     const conCurr = controls.current;
     if (!conCurr) return;
 
-    const { forward, backward, left, right, jump, run } = get();
+    inputManager.update(delta);
+
+    // Tick health, then respawn at the spawn point once the respawn delay has passed
+    handleHealth({
+      store: healthStore,
+      delta,
+      controls,
+      spawnPoint: spawnPoint ?? (props.position as [number, number, number] | undefined) ?? [0, 0, 0],
+      onDeath,
+      onRespawn: () => {
+        staminaStore.reset();
+        kinematicState.current = createKinematicState();
+        onRespawn?.();
+      },
+      wasDead
+    });
+
+    // Input is disabled while dead
+    const dead = isDead();
+
+    // KeyboardControls maps are still honoured alongside the input manager's bindings
+    const keys = get() as Partial<Record<string, boolean>>;
+    const isActionDown = (name: string) => !dead && (inputManager.isDown(name) || !!keys[name]);
+
+    // Analog input (sticks, touch joystick) counts once it passes the threshold
+    const move = inputManager.getMoveVector();
+    const forward = isActionDown('forward') || (!dead && move.y > ANALOG_MOVE_THRESHOLD);
+    const backward = isActionDown('backward') || (!dead && move.y < -ANALOG_MOVE_THRESHOLD);
+    const left = isActionDown('left') || (!dead && move.x < -ANALOG_MOVE_THRESHOLD);
+    const right = isActionDown('right') || (!dead && move.x > ANALOG_MOVE_THRESHOLD);
+    const jump = isActionDown('jump');
+    const crouch = isActionDown('crouch');
+    const prone = isActionDown('prone');
+
+    if (dead) {
+      trigger.current.held = false;
+      trigger.current.pressed = false;
+      zoom.current = false;
+      if (cancelReload(getAmmo(weapon))) {
+        onReloadEnd?.(weapon, false);
+      }
+    } else {
+      handleWeaponInput();
+
+      if (inputManager.wasPressed('swapShoulder')) {
+        swapShoulder(shoulder.current);
+      }
+
+      if (inputManager.wasPressed('toggleCameraMode')) {
+        const next = firstPerson ? 'third-person' : 'first-person';
+        setActiveCameraMode(next);
+        onCameraModeChange?.(next);
+      }
+
+      // Mouse and look stick rotation, clamped vertically
+      const look = inputManager.getLookDelta();
+      mouseRotationRef.current.x += look.x;
+      const [pitchUp, pitchDown] = cameraRigConfig.pitchLimits;
+      mouseRotationRef.current.y = Math.max(pitchUp, Math.min(pitchDown, mouseRotationRef.current.y + look.y));
+    }
+
+    // Finish reloads, fire whatever the trigger and cooldown allow, and report ammo changes to the HUD
+    const ammo = getAmmo(weapon);
+    handleReload({ ammo, weapon, onReloadEnd });
+    handleFireControl({ trigger: trigger.current, weapon, delta, fire: fireShot });
+
+    const previousAmmo = lastAmmoInfo.current;
+    if (
+      !previousAmmo ||
+      previousAmmo.weapon !== weapon ||
+      previousAmmo.magazine !== ammo.magazine ||
+      previousAmmo.reserve !== ammo.reserve ||
+      previousAmmo.reloading !== ammo.reloading
+    ) {
+      lastAmmoInfo.current = { weapon, magazine: ammo.magazine, reserve: ammo.reserve, reloading: ammo.reloading };
+      onAmmoChange?.(lastAmmoInfo.current);
+    }
 
     // Detect single jump press
     const jumpPressed = jump && !jumpPressedRef.current;
     jumpPressedRef.current = jump;
 
-    // Handle movement animations
-    handleMovement({
-      forward,
-      backward,
-      left,
-      right,
-      run,
-      jump,
-      wait,
-      isJumping,
-      actions,
-      setAction
-    });
-    
     const world = rapier.world;
 
-    // Implement jump
-    const ray = world.castRay(new RAPIER.Ray(conCurr.translation(), {x: 0, y: -1, z: 0}), 0.6, true);
-    const isGrounded = ray && ray.collider && Math.abs(ray.timeOfImpact) <= 0.5;
-
-    // Handle jump - only if isGrounded is not null
-    if (isGrounded !== null) {
-      handleJump({
-        jumpPressed,
-        isGrounded,
-        wait,
-        isJumping,
-        actions,
-        controls,
-        setAction,
-        setIsJumping,
-        setWait
-      });
-    }
-
-    if (mixer) {
-      mixer.update(delta);
+    // Crouch and prone - jumping from either only stands up
+    const wasStanding = stanceState.current.stance === 'standing';
+    if (dead) {
+      stanceState.current.crouchLatched = false;
+      stanceState.current.proneLatched = false;
     }
-
-    // Handle recoil animation
-    handleRecoil({
-      recoilActive,
-      recoilStartTime,
-      leftHandBone,
-      rightHandBone,
-      leftHandOriginalRotation,
-      rightHandOriginalRotation
+    const currentStance = handleStance({
+      state: stanceState.current,
+      config: stanceConfig,
+      crouchHeld: crouch,
+      crouchPressed: crouch && !crouchHeldRef.current,
+      pronePressed: prone && !proneHeldRef.current,
+      jumpPressed,
+      delta,
+      world,
+      controls,
+      colliderArgs,
+      onStanceChange: (next) => {
+        setStance(next);
+        onStanceChange?.(next);
+      }
+    });
+    crouchHeldRef.current = crouch;
+    proneHeldRef.current = prone;
+
+    // Sprinting needs a standing stance, some movement and stamina to spend
+    const moving = forward || backward || left || right;
+    const run = staminaStore.update(delta, isActionDown('run') && moving && currentStance === 'standing');
+
+    // Implement jump - the kinematic controller reports grounding itself, dynamic mode shape casts for it
+    const feetHeight = getFeetHeight(colliderArgs);
+    const groundParams = { rapier: rapier.rapier, world, controls, radius: colliderArgs[1], feetHeight, config: groundConfig, ground: ground.current };
+    if (!kinematic) detectGround(groundParams);
+    const isGrounded = kinematic ? kinematicState.current.grounded : ground.current.grounded;
+    let jumpStarted = false;
+
+    handleJump({
+      jumpPressed: jumpPressed && wasStanding,
+      jumpHeld: jump,
+      isGrounded,
+      wait,
+      isJumping,
+      controls,
+      animator: animationStateMachine,
+      setIsJumping,
+      setWait,
+      onJump: () => {
+        jumpStarted = true;
+        staminaStore.drain(staminaStore.config.jumpCost);
+        // Kinematic bodies ignore the jump impulse, so launch through the controller instead
+        if (kinematic) kinematicState.current.verticalVelocity = kinematicConfig.jumpSpeed;
+      },
+      state: jumpState.current,
+      config: jumpConfig,
+      verticalVelocity: kinematic ? {
+        get: () => kinematicState.current.verticalVelocity,
+        set: (value) => {
+          kinematicState.current.verticalVelocity = value;
+        },
+      } : undefined
     });
 
     // Get mouse rotation values
@@ -282,55 +564,165 @@ export function Player({
       yaw 
     );
 
+    // Recoil plays as an additive layer, weighted by the recoil curve
+    const recoilIntensity = handleRecoil({
+      recoil: weapon.recoil,
+      recoilActive,
+      recoilStartTime
+    });
+
+    // Pick the animation states for this frame from the actual velocity and look, then advance the clips
+    const speedMultiplier = getStanceSettings(stanceConfig, currentStance).speedMultiplier;
+    const velocity = kinematic ? kinematicState.current.horizontalVelocity : controls.current?.linvel() ?? { x: 0, z: 0 };
+    animationStateMachine.update({
+      forward,
+      backward,
+      left,
+      right,
+      moving,
+      run,
+      velocity: getLocalVelocity(velocity, playerYRotation, MOVE_SPEED * speedMultiplier),
+      grounded: isGrounded,
+      jumping: wait || isJumping || jumpStarted,
+      reloading: ammo.reloading,
+      dead,
+      aiming: zoom.current,
+      pitch,
+      recoil: recoilIntensity,
+      stance: currentStance
+    }, delta);
+
+    if (mixer) {
+      restoreIKPose(ikState.current);
+      mixer.update(delta);
+    }
+
     if (group.current) {
-      group.current.quaternion.slerp(playerYRotation, zoom.current ? 1 : 0.1);
+      // In first person the body turns with the view, so the camera stays on its head
+      group.current.quaternion.slerp(playerYRotation, zoom.current || firstPerson ? 1 : 0.1);
+
+      // Hands on the weapon and feet on the ground - feet aren't planted in the air, lying prone or dead
+      state.camera.getWorldDirection(ikAimPoint.current).multiplyScalar(ikConfig.aimDistance).add(state.camera.position);
+      handleIK({
+        root: group.current,
+        bones: skeleton.bones,
+        config: ikConfig,
+        state: ikState.current,
+        delta,
+        aiming: zoom.current && !dead,
+        aimPoint: ikAimPoint.current,
+        leftHandGrip: weapon.leftHandGrip,
+        grounded: isGrounded && currentStance !== 'prone' && !dead,
+        feetHeight,
+        world,
+        controls
+      });
+    }
+
+    // The head is collapsed every frame it is hidden, and restored once
+    const hideHead = firstPerson && firstPersonConfig.hide === 'head';
+    if (hideHead || headHidden.current) {
+      setHeadHidden(skeleton.bones, hideHead);
+      headHidden.current = hideHead;
     }
 
     // Update movement physics
-    updateMovementPhysics({
+    const movementPhysics = {
       forward,
       backward,
       left,
       right,
       run,
+      speedMultiplier,
       playerYRotation,
       controls,
-      smoothedPlayerPosition
-    });
+      smoothedPlayerPosition,
+      ground: ground.current,
+      groundConfig,
+      jumping: isJumping || jumpStarted,
+      locomotion: locomotionConfig,
+      airborne: !isGrounded,
+      airControl: jumpConfig.airControl,
+      delta
+    };
+    if (kinematic) {
+      updateKinematicMovement({
+        ...movementPhysics,
+        controller: characterController.current,
+        collider: colliderRef,
+        state: kinematicState.current,
+        config: kinematicConfig,
+        delta,
+        world
+      });
+    } else {
+      if (!movementPhysics.jumping) handleStepUp(groundParams, getMoveVelocity(movementPhysics));
+      updateMovementPhysics(movementPhysics);
+    }
 
     // Handle muzzle flash animation - only if refs are not null
     if (muzzleFlashRef.current && muzzleFlashLightRef.current && group.current) {
       handleMuzzleFlash({
+        muzzleFlash: weapon.muzzleFlash,
         muzzleFlashActive,
         muzzleFlashStartTime,
         muzzleFlashRef,
         muzzleFlashLightRef,
         gunBarrelRef,
         group,
-        bones,
+        anchor: skeleton.bones.chest ?? null,
         pitch,
         yaw,
         camera: state.camera
       });
     }
 
-    // Update camera
-    updateCamera({
-      zoom,
-      smoothedPlayerPosition,
-      smoothedCameraPosition,
-      playerYRotation,
-      pitch,
-      yaw,
+    // Update camera - both views look along the aim, so shooting below works the same in either
+    if (firstPerson) {
+      updateFirstPersonCamera({
+        camera: state.camera,
+        head: skeleton.bones.head ?? null,
+        smoothedPlayerPosition,
+        smoothedCameraPosition,
+        playerYRotation,
+        pitch,
+        yaw,
+        zoom,
+        heightOffset: stanceState.current.cameraDrop,
+        config: firstPersonConfig
+      });
+      armsRef.current?.update(state.camera);
+    } else {
+      updateCamera({
+        zoom,
+        smoothedPlayerPosition,
+        smoothedCameraPosition,
+        playerYRotation,
+        pitch,
+        yaw,
+        camera: state.camera,
+        heightOffset: stanceState.current.cameraDrop,
+        rig: cameraRigConfig,
+        shoulder: shoulder.current,
+        controls,
+        collision: cameraCollision.current,
+        collide: occlusionConfig.mode === 'pull-in',
+        rapier: rapier.rapier,
+        world
+      });
+    }
+
+    handleOcclusion({
       camera: state.camera,
-      world
+      scene: state.scene,
+      smoothedPlayerPosition,
+      heightOffset: stanceState.current.cameraDrop,
+      ignore: root.current,
+      config: occlusionConfig,
+      state: occlusionState.current,
+      active: !firstPerson
     });
 
-    // Spine2 rotation for gun aiming
-    const spineRotationAxis = new THREE.Vector3(1, 0, -0.5); 
-    bones[3].rotation.set(0, 0, 0);
-    bones[3].rotateOnAxis(spineRotationAxis, pitch * 0.7);
-
     // Handle shooting and raycasting - only if controls and dotRef are not null
     if (controls.current && dotRef.current) {
       handleShooting({
@@ -339,17 +731,20 @@ export function Player({
         controls,
         dotRef,
         shoot,
-        shootRayDirection
+        shootRayDirection,
+        weapon,
+        team,
+        onHit
       });
     }
   })
 
   return (
-    <group>
+    <group ref={root}>
       <RigidBody
         ref={controls}
         position={props.position}
-        type="dynamic"
+        type={kinematic ? 'kinematicPosition' : 'dynamic'}
         mass={mass}
         restitution={restitution}
         friction={friction}
@@ -359,30 +754,60 @@ export function Player({
         colliders={false}
         enabledRotations={[false, false, false]}
         enabledTranslations={[true, true, true]}
+        userData={bodyUserData}
       >
-        <CapsuleCollider rotation={[0, 0, 0]} args={colliderArgs} position={[0, 0.8, 0]} />
+        <CapsuleCollider
+          ref={colliderRef}
+          rotation={[0, 0, 0]}
+          args={[stanceCollider.halfHeight, stanceCollider.radius]}
+          position={[0, stanceCollider.centerY, 0]}
+        />
         <group rotation={[0, 0, 0]} ref={group} dispose={null}>
           <group name="Scene">
-            <group castShadow={castShadow} receiveShadow={receiveShadow} name="Armature" rotation={[0, 0, 0]} scale={0.01}>
-              <primitive object={nodes.mixamorigHips} />
-              <skinnedMesh frustumCulled={false} castShadow={castShadow} receiveShadow={receiveShadow} name="Alpha_Joints" geometry={nodes.Alpha_Joints.geometry} material={materials.Alpha_Joints_MAT} skeleton={nodes.Alpha_Joints.skeleton} />
-              <skinnedMesh frustumCulled={false} castShadow={castShadow} receiveShadow={receiveShadow} name="Alpha_Surface" geometry={nodes.Alpha_Surface.geometry} material={materials.Alpha_Body_MAT} skeleton={nodes.Alpha_Surface.skeleton} />
+            <group castShadow={castShadow} receiveShadow={receiveShadow} name="Armature" rotation={[0, 0, 0]} scale={modelScale}>
+              {rig.rootBones.map(bone => <primitive key={bone.uuid} object={bone} />)}
+              {rig.skinnedMeshes.map(mesh => (
+                <skinnedMesh key={mesh.uuid} visible={!(firstPerson && firstPersonConfig.hide === 'body')} frustumCulled={false} castShadow={castShadow} receiveShadow={receiveShadow} name={mesh.name} geometry={mesh.geometry} material={mesh.material} skeleton={mesh.skeleton} />
+              ))}
             </group>
           </group>
         </group>
 
       <PositionalAudio
-        url={audioPath}
+        url={weapon.shotSound}
         ref={shotSfxRef}
         distance={8}
         loop={false}
         position={[0, 1.5, 0]}
       />
+
+      {weapon.dryFireSound && (
+        <PositionalAudio
+          url={weapon.dryFireSound}
+          ref={dryFireSfxRef}
+          distance={4}
+          loop={false}
+          position={[0, 1.5, 0]}
+        />
+      )}
       </RigidBody>
 
+      {firstPerson && firstPersonConfig.armsModelPath && (
+        <Suspense fallback={null}>
+          <FirstPersonArms
+            ref={armsRef}
+            modelPath={firstPersonConfig.armsModelPath}
+            bones={skeleton.bones}
+            boneMap={resolvedBoneMap}
+            offset={firstPersonConfig.armsOffset}
+            scale={firstPersonConfig.armsScale}
+          />
+        </Suspense>
+      )}
+
       {/* Muzzle Flash */}
       <mesh ref={muzzleFlashRef} visible={false}>
-        <planeGeometry args={[0.5, 0.5]} />
+        <planeGeometry args={[weapon.muzzleFlash.size, weapon.muzzleFlash.size]} />
         <meshBasicMaterial 
           map={muzzleFlashTexture}
           transparent
@@ -397,12 +822,19 @@ export function Player({
       <pointLight
         ref={muzzleFlashLightRef}
         intensity={0}
-        distance={MUZZLE_FLASH_LIGHT_DISTANCE}
+        distance={weapon.muzzleFlash.lightDistance}
         decay={2}
-        color={0xffa500}
+        color={weapon.muzzleFlash.lightColor}
         visible={false}
       />
 
+      {touchMode && (
+        // Pinned to the canvas' top-left corner regardless of where the player is
+        <Html fullscreen pointerEvents="none" calculatePosition={centerOverlay}>
+          <TouchControls input={inputManager} {...touchOptions} />
+        </Html>
+      )}
+
       <mesh ref={dotRef} visible={false}>
         <sphereGeometry args={[0.1, 16, 16]} />
         <meshStandardMaterial color='red' opacity={1} />
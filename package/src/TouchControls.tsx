@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from 'react'
+import type { InputManager, TouchControlsProps } from './modules/player/types'
+import { DEFAULT_TOUCH_OPTIONS } from './modules/player/touch'
+
+const zoneStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: 0,
+  bottom: 0,
+  width: '50%',
+  pointerEvents: 'auto',
+  touchAction: 'none',
+  userSelect: 'none',
+  WebkitUserSelect: 'none',
+}
+
+const BUTTON_BACKGROUND = 'rgba(0, 0, 0, 0.35)'
+const BUTTON_PRESSED_BACKGROUND = 'rgba(255, 255, 255, 0.35)'
+
+const buttonStyle: React.CSSProperties = {
+  position: 'absolute',
+  width: 64,
+  height: 64,
+  borderRadius: '50%',
+  border: '2px solid rgba(255, 255, 255, 0.6)',
+  background: BUTTON_BACKGROUND,
+  color: 'white',
+  font: '600 12px sans-serif',
+  pointerEvents: 'auto',
+  touchAction: 'none',
+  userSelect: 'none',
+  WebkitUserSelect: 'none',
+}
+
+// On-screen button that holds an input action while pressed
+function ActionButton({
+  input,
+  action,
+  label,
+  style,
+  active,
+  onPress,
+}: {
+  input: InputManager
+  action: string
+  label: string
+  style: React.CSSProperties
+  active?: boolean
+  onPress?: () => void
+}) {
+  const [pressed, setPressed] = useState(false)
+
+  const release = () => {
+    if (!onPress) input.release(action)
+    setPressed(false)
+  }
+
+  return (
+    <button
+      style={{ ...buttonStyle, ...style, background: pressed || active ? BUTTON_PRESSED_BACKGROUND : BUTTON_BACKGROUND }}
+      onPointerDown={(e) => {
+        // Keep the press from also starting a look drag underneath, and from the compatibility
+        // mousedown the browser sends after a tap, which the input manager reads as fire
+        e.stopPropagation()
+        e.preventDefault()
+        e.currentTarget.setPointerCapture(e.pointerId)
+        setPressed(true)
+        if (onPress) onPress()
+        else input.press(action)
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {label}
+    </button>
+  )
+}
+
+/**
+ * Touch overlay driving an InputManager: a floating joystick on the left half,
+ * drag-to-look on the right half and fire/aim/jump/reload buttons.
+ */
+export function TouchControls({ input, ...options }: TouchControlsProps) {
+  const { lookSensitivity, joystickRadius, runThreshold, aimToggle, showReload } = { ...DEFAULT_TOUCH_OPTIONS, ...options }
+
+  const joystickPointer = useRef<number | null>(null)
+  const lookPointer = useRef<number | null>(null)
+  const lastLookPosition = useRef({ x: 0, y: 0 })
+  // origin is in client coordinates for the maths, anchor is local to the zone for drawing
+  const [joystick, setJoystick] = useState<{
+    origin: { x: number; y: number }
+    anchor: { x: number; y: number }
+    offset: { x: number; y: number }
+  } | null>(null)
+  const [aiming, setAiming] = useState(false)
+
+  // Leave no action stuck when the overlay goes away
+  useEffect(() => () => {
+    input.setMove(0, 0);
+    ['fire', 'aim', 'jump', 'run', 'reload'].forEach(action => input.release(action))
+  }, [input])
+
+  useEffect(() => {
+    if (!aimToggle) return
+    if (aiming) input.press('aim')
+    else input.release('aim')
+  }, [aiming, aimToggle, input])
+
+  const handleJoystickMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== joystickPointer.current || !joystick) return
+
+    let dx = e.clientX - joystick.origin.x
+    let dy = e.clientY - joystick.origin.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    if (distance > joystickRadius) {
+      dx = dx / distance * joystickRadius
+      dy = dy / distance * joystickRadius
+    }
+
+    // Screen up is forward
+    input.setMove(dx / joystickRadius, -dy / joystickRadius)
+    if (distance / joystickRadius >= runThreshold) input.press('run')
+    else input.release('run')
+
+    setJoystick({ ...joystick, offset: { x: dx, y: dy } })
+  }
+
+  const handleJoystickEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== joystickPointer.current) return
+    joystickPointer.current = null
+    input.setMove(0, 0)
+    input.release('run')
+    setJoystick(null)
+  }
+
+  const handleLookEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId === lookPointer.current) lookPointer.current = null
+  }
+
+  return (
+    <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+      {/* Movement joystick, centred wherever the thumb lands */}
+      <div
+        style={{ ...zoneStyle, left: 0 }}
+        onPointerDown={(e) => {
+          e.preventDefault()
+          if (joystickPointer.current !== null) return
+          joystickPointer.current = e.pointerId
+          e.currentTarget.setPointerCapture(e.pointerId)
+          const rect = e.currentTarget.getBoundingClientRect()
+          setJoystick({
+            origin: { x: e.clientX, y: e.clientY },
+            anchor: { x: e.clientX - rect.left, y: e.clientY - rect.top },
+            offset: { x: 0, y: 0 },
+          })
+        }}
+        onPointerMove={handleJoystickMove}
+        onPointerUp={handleJoystickEnd}
+        onPointerCancel={handleJoystickEnd}
+      >
+        {joystick && (
+          <div
+            style={{
+              position: 'absolute',
+              left: joystick.anchor.x - joystickRadius,
+              top: joystick.anchor.y - joystickRadius,
+              width: joystickRadius * 2,
+              height: joystickRadius * 2,
+              borderRadius: '50%',
+              border: '2px solid rgba(255, 255, 255, 0.4)',
+              background: 'rgba(0, 0, 0, 0.2)',
+              pointerEvents: 'none',
+            }}
+          >
+            <div
+              style={{
+                position: 'absolute',
+                left: joystickRadius + joystick.offset.x - 24,
+                top: joystickRadius + joystick.offset.y - 24,
+                width: 48,
+                height: 48,
+                borderRadius: '50%',
+                background: 'rgba(255, 255, 255, 0.6)',
+              }}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Drag to look */}
+      <div
+        style={{ ...zoneStyle, right: 0 }}
+        onPointerDown={(e) => {
+          e.preventDefault()
+          if (lookPointer.current !== null) return
+          lookPointer.current = e.pointerId
+          lastLookPosition.current = { x: e.clientX, y: e.clientY }
+          e.currentTarget.setPointerCapture(e.pointerId)
+        }}
+        onPointerMove={(e) => {
+          if (e.pointerId !== lookPointer.current) return
+          input.addLook(
+            (e.clientX - lastLookPosition.current.x) * lookSensitivity,
+            (e.clientY - lastLookPosition.current.y) * lookSensitivity
+          )
+          lastLookPosition.current = { x: e.clientX, y: e.clientY }
+        }}
+        onPointerUp={handleLookEnd}
+        onPointerCancel={handleLookEnd}
+      >
+        <ActionButton input={input} action="fire" label="FIRE" style={{ right: 24, bottom: 96, width: 80, height: 80 }} />
+        <ActionButton
+          input={input}
+          action="aim"
+          label="AIM"
+          style={{ right: 120, bottom: 140 }}
+          active={aimToggle && aiming}
+          onPress={aimToggle ? () => setAiming(value => !value) : undefined}
+        />
+        <ActionButton input={input} action="jump" label="JUMP" style={{ right: 120, bottom: 32 }} />
+        {showReload && (
+          <ActionButton input={input} action="reload" label="R" style={{ right: 24, bottom: 200, width: 48, height: 48 }} />
+        )}
+      </div>
+    </div>
+  )
+}
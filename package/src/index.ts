@@ -1,28 +1,137 @@
 // Main exports
 export { Player } from './Player';
+export { TouchControls } from './TouchControls';
+export { KeyBindingsMenu } from './KeyBindingsMenu';
+export { FirstPersonArms } from './FirstPersonArms';
 export { preloadPlayerAssets } from './utils/preload';
 
 // Module exports
 export * from './modules/player/types';
 export * from './modules/player/constants';
-export { handleMovement } from './modules/player/movement';
-export { handleJump } from './modules/player/jump';
+export { DEFAULT_ANIMATION_STATE_MACHINE, UPPER_BODY_MASK, createAnimationStateMachine, useAnimationState } from './modules/player/animationStateMachine';
+export { DEFAULT_BONE_MAP, findRig, resolveBones, describeMissingBones } from './modules/player/bones';
+export { retargetClip } from './modules/player/retarget';
+export { createAdditivePose, createAimOffsetClips, createRecoilClip, createDeathClip, createReloadClip, createCrouchClip, createProneClip, createStanceClips } from './modules/player/proceduralClips';
+export { getBlendSpaceWeights } from './modules/player/blendSpace';
+export { DEFAULT_JUMP_CONFIG, createJumpState, getAirControlBlend, handleJump } from './modules/player/jump';
 export { handleRecoil } from './modules/player/recoil';
 export { handleMuzzleFlash } from './modules/player/muzzleFlash';
-export { updateCamera } from './modules/player/camera';
-export { updateMovementPhysics } from './modules/player/physics';
+export { updateCamera, resolveCameraRig, CAMERA_RIG_PRESETS, DEFAULT_CAMERA_RIG, createShoulderState, swapShoulder, createCameraCollisionState } from './modules/player/camera';
+export { DEFAULT_OCCLUSION_CONFIG, createOcclusionState, handleOcclusion, restoreOccluders } from './modules/player/occlusion';
+export { DEFAULT_FIRST_PERSON_CONFIG, updateFirstPersonCamera, setHeadHidden, pairArmsBones, poseArmsRig } from './modules/player/firstPerson';
+export { updateMovementPhysics, getMoveVelocity, getLocalVelocity, smoothPlayerPosition } from './modules/player/physics';
+export { DEFAULT_GROUND_CONFIG, createGroundInfo, detectGround, applyGroundToVelocity, handleStepUp } from './modules/player/ground';
+export { DEFAULT_LOCOMOTION_CONFIG, getSurfaceTraction, applyLocomotion } from './modules/player/locomotion';
+export { DEFAULT_IK_CONFIG, createIKState, solveTwoBoneIK, restoreIKPose, handleIK } from './modules/player/ik';
+export { DEFAULT_KINEMATIC_CONFIG, createKinematicState, configureCharacterController, useCharacterController, updateKinematicMovement } from './modules/player/kinematic';
 export { handleShooting } from './modules/player/shooting';
 export { createMuzzleFlashTexture } from './modules/player/textures';
 export { useAnimationSetup } from './modules/player/useAnimationSetup';
+export { DEFAULT_WEAPON, defineWeapon, getShotInterval } from './modules/player/weapons';
+export { createTriggerState, getFireModes, getFireMode, cycleFireMode, handleFireControl } from './modules/player/fireControl';
+export { DEFAULT_HEALTH_CONFIG, createHealthStore, useHealth, handleHealth } from './modules/player/health';
+export { DEFAULT_STAMINA_CONFIG, createStaminaStore, useStamina } from './modules/player/stamina';
+export { DEFAULT_INPUT_BINDINGS, DEFAULT_INPUT_CONFIG, createInputManager, applyStickResponse, getBindingId } from './modules/player/input';
+export { DEFAULT_BINDINGS_STORAGE_KEY, createBindingsStore, useBindings, parseBindings, describeBinding, captureNextBinding } from './modules/player/bindings';
+export { DEFAULT_TOUCH_OPTIONS, isTouchDevice, resolveTouchControls } from './modules/player/touch';
+export { DEFAULT_STANCE_CONFIG, createStanceState, getStanceSettings, getStanceCollider, getFeetHeight, handleStance } from './modules/player/stance';
+export { createAmmoState, consumeRound, canReload, startReload, cancelReload, handleReload } from './modules/player/ammo';
 
 // Re-export types for consumers
 export type {
   GLTFResult,
   ActionName,
+  AnimationPaths,
+  AnimationSource,
+  AnimationClipSource,
+  AnimationSetupOptions,
+  BoneRole,
+  BoneMatcher,
+  BoneMap,
+  BoneResolution,
+  Rig,
+  AnimationContext,
+  AnimationInput,
+  AnimationStateDefinition,
+  BlendSpacePoint,
+  AnimationTransition,
+  AnimationStateMachineConfig,
+  AnimationStateMachineOverrides,
+  AnimationLayerDefinition,
+  BoneMask,
+  AnimationStateMachine,
+  WeaponDefinition,
+  RecoilConfig,
+  MuzzleFlashConfig,
+  FireMode,
+  TriggerState,
+  FireControlParams,
+  HitEvent,
+  HitTargetUserData,
+  HealthConfig,
+  HealthState,
+  HealthStore,
+  HealthParams,
+  DamageOptions,
+  DamageOverTime,
+  StaminaConfig,
+  StaminaState,
+  StaminaStore,
+  PlayerAction,
+  InputBinding,
+  InputBindings,
+  InputConfig,
+  InputManager,
+  StickConfig,
+  StickCurve,
+  BindingConflict,
+  BindingsStore,
+  BindingsStoreOptions,
+  KeyBindingsMenuProps,
+  TouchControlsOptions,
+  TouchControlsProps,
+  Stance,
+  StanceSettings,
+  StanceConfig,
+  StanceState,
+  StanceParams,
+  AmmoState,
+  AmmoInfo,
+  ReloadParams,
   JumpParams,
-  MovementParams,
+  JumpConfig,
+  JumpState,
+  LocomotionConfig,
+  LocomotionParams,
+  IKConfig,
+  IKState,
+  IKParams,
   RecoilParams,
   MuzzleFlashParams,
   CameraParams,
-  MovementPhysicsParams
+  CameraViewConfig,
+  CameraRigConfig,
+  CameraRigPreset,
+  CameraRigOptions,
+  CameraShoulderState,
+  CameraCollisionState,
+  OcclusionConfig,
+  OcclusionState,
+  OcclusionParams,
+  FadedMesh,
+  CameraMode,
+  FirstPersonConfig,
+  FirstPersonCameraParams,
+  FirstPersonArmsHandle,
+  FirstPersonArmsProps,
+  MovementPhysicsParams,
+  ControllerMode,
+  KinematicControllerConfig,
+  KinematicState,
+  KinematicMovementParams,
+  RapierModule,
+  CharacterController,
+  GroundConfig,
+  GroundInfo,
+  GroundParams
 } from './modules/player/types';
@@ -0,0 +1,53 @@
+import type { AmmoState, ReloadParams, WeaponDefinition } from './types';
+
+export function createAmmoState(weapon: WeaponDefinition): AmmoState {
+  return {
+    magazine: weapon.magazineSize,
+    reserve: weapon.reserveAmmo,
+    reloading: false,
+    reloadStartTime: 0,
+  };
+}
+
+// Takes one round from the magazine, returns false on an empty magazine or mid-reload
+export function consumeRound(ammo: AmmoState): boolean {
+  if (ammo.reloading || ammo.magazine <= 0) return false;
+  ammo.magazine -= 1;
+  return true;
+}
+
+export function canReload(ammo: AmmoState, weapon: WeaponDefinition): boolean {
+  return !ammo.reloading && ammo.reserve > 0 && ammo.magazine < weapon.magazineSize;
+}
+
+export function startReload(ammo: AmmoState, weapon: WeaponDefinition, now = Date.now()): boolean {
+  if (!canReload(ammo, weapon)) return false;
+  ammo.reloading = true;
+  ammo.reloadStartTime = now;
+  return true;
+}
+
+export function cancelReload(ammo: AmmoState): boolean {
+  if (!ammo.reloading) return false;
+  ammo.reloading = false;
+  return true;
+}
+
+// Finishes a running reload once its time is up, moving rounds from reserve to magazine
+export function handleReload({
+  ammo,
+  weapon,
+  onReloadEnd
+}: ReloadParams): void {
+  if (!ammo.reloading) return;
+
+  const elapsedTime = Date.now() - ammo.reloadStartTime;
+  if (elapsedTime < weapon.reloadTime) return;
+
+  const rounds = Math.min(weapon.magazineSize - ammo.magazine, ammo.reserve);
+  ammo.magazine += rounds;
+  ammo.reserve -= rounds;
+  ammo.reloading = false;
+
+  onReloadEnd?.(weapon, true);
+}
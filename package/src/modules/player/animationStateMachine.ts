@@ -0,0 +1,467 @@
+import * as THREE from 'three';
+import React from 'react';
+import type {
+  AnimationContext,
+  AnimationLayerDefinition,
+  AnimationStateMachine,
+  AnimationStateMachineConfig,
+  AnimationStateMachineOverrides,
+  AnimationTransition,
+  BlendSpacePoint,
+  BoneMask
+} from './types';
+import { AIM_PITCH_DOWN, AIM_PITCH_UP, RUN_MULTIPLIER } from './constants';
+import { getBlendSpaceWeights } from './blendSpace';
+
+const locomotion = (context: AnimationContext) => !context.jumping && context.stance === 'standing';
+const crouching = (context: AnimationContext) => context.stance === 'crouching';
+
+// Clips sit at the velocity they were animated for, in walking speeds
+const RUN = RUN_MULTIPLIER;
+
+// Spine, arms and head of a Mixamo-style skeleton
+export const UPPER_BODY_MASK: BoneMask = /Spine|Neck|Head|Shoulder|Arm|Hand/;
+
+// The built-in clips and when they play. Wildcard transitions are listed from the most to
+// the least important, so e.g. dying wins over everything.
+export const DEFAULT_ANIMATION_STATE_MACHINE: AnimationStateMachineConfig = {
+  initial: 'locomotion',
+  blendTime: 0.1,
+  states: {
+    locomotion: {
+      blendSpace: [
+        { clip: 'idle', x: 0, y: 0 },
+        { clip: 'walkForward', x: 0, y: 1 },
+        { clip: 'walkBackward', x: 0, y: -1 },
+        { clip: 'strafeLeft', x: -1, y: 0 },
+        { clip: 'strafeRight', x: 1, y: 0 },
+        { clip: 'runForward', x: 0, y: RUN },
+        { clip: 'runBackward', x: 0, y: -RUN },
+      ],
+    },
+    jump: { clip: 'jumpEnd' },
+    death: { clip: 'death', loop: false },
+    crouchLocomotion: {
+      blendSpace: [
+        { clip: 'crouchIdle', x: 0, y: 0 },
+        { clip: 'crouchWalkForward', x: 0, y: 1 },
+        { clip: 'crouchWalkBackward', x: 0, y: -1 },
+        { clip: 'crouchStrafeLeft', x: -1, y: 0 },
+        { clip: 'crouchStrafeRight', x: 1, y: 0 },
+      ],
+    },
+    proneIdle: { clip: 'proneIdle' },
+    proneCrawl: { clip: 'proneCrawl' },
+  },
+  transitions: [
+    { from: '*', to: 'death', when: c => c.dead, interrupt: true },
+    { from: '*', to: 'jump', trigger: 'jump' },
+
+    // Prone crawls the same way in every direction
+    { from: '*', to: 'proneCrawl', when: c => c.stance === 'prone' && c.moving },
+    { from: '*', to: 'proneIdle', when: c => c.stance === 'prone' },
+
+    { from: '*', to: 'crouchLocomotion', when: crouching },
+
+    // Standing locomotion waits for a jump to play out
+    { from: '*', to: 'locomotion', when: locomotion },
+  ],
+  layers: {
+    // Weapon handling over whatever the legs are doing. aim and fire only play when
+    // animationPaths has clips for them.
+    upperBody: {
+      mask: UPPER_BODY_MASK,
+      states: {
+        reload: { clip: 'reload' },
+        fire: { clip: 'fire', loop: false, interruptible: false },
+        aim: { clip: 'aim' },
+      },
+      transitions: [
+        { from: '*', to: null, when: c => c.dead, interrupt: true },
+        { from: '*', to: 'reload', when: c => c.reloading },
+        { from: '*', to: 'fire', trigger: 'fire', interrupt: true, restart: true, blendTime: 0.05 },
+        { from: '*', to: 'aim', when: c => c.aiming },
+        { from: '*', to: null },
+      ],
+    },
+    // Bends the spine with the look pitch on top of every other layer
+    aimOffset: {
+      additive: true,
+      initial: 'aimPitch',
+      states: {
+        aimPitch: {
+          blendSpace: [
+            { clip: 'aimUp', x: 0, y: AIM_PITCH_UP },
+            { clip: 'aimNeutral', x: 0, y: 0 },
+            { clip: 'aimDown', x: 0, y: AIM_PITCH_DOWN },
+          ],
+          blendParameter: c => ({ x: 0, y: c.pitch }),
+        },
+      },
+      transitions: [],
+    },
+    recoil: {
+      additive: true,
+      initial: 'recoil',
+      weight: c => c.recoil,
+      states: {
+        recoil: { clip: 'recoil' },
+      },
+      transitions: [],
+    },
+  },
+};
+
+function mergeLayer(
+  base: AnimationLayerDefinition | undefined,
+  extra: Partial<AnimationLayerDefinition> | undefined
+): AnimationLayerDefinition {
+  return {
+    ...base,
+    ...extra,
+    states: { ...base?.states, ...extra?.states },
+    transitions: [...(extra?.transitions ?? []), ...(base?.transitions ?? [])],
+  };
+}
+
+function isInMask(mask: BoneMask | undefined, bone: string): boolean {
+  if (!mask) return true;
+  if (mask instanceof RegExp) return mask.test(bone);
+  if (Array.isArray(mask)) return mask.indexOf(bone) !== -1;
+  return mask(bone);
+}
+
+interface BoundClip {
+  // The clip split by which override layers above mask its tracks, so each part can give
+  // way to exactly those layers
+  parts: { action: THREE.AnimationAction; coverage: number[] }[];
+  duration: number; // seconds
+}
+
+interface BoundState {
+  clips: BoundClip[];
+  points: BlendSpacePoint[] | null; // Blend space points, parallel to clips
+  pointWeights: number[];
+  weight: number; // Cross-fade weight of the whole state
+  playing: boolean;
+}
+
+interface Layer {
+  name: string;
+  definition: AnimationLayerDefinition;
+  base: boolean;
+  state: string | null;
+  stateTime: number;
+  fadeTime: number;
+  states: Record<string, BoundState>;
+  weight: number; // Resolved layer weight this frame
+  strength: number; // How much of the layer shows this frame, 0-1
+}
+
+// Custom states are added to the defaults and custom transitions take priority over the
+// default ones, per layer
+export function createAnimationStateMachine(
+  overrides: AnimationStateMachineOverrides = {},
+  { inheritDefaults = true }: { inheritDefaults?: boolean } = {}
+): AnimationStateMachine {
+  const defaults: AnimationStateMachineConfig = inheritDefaults
+    ? DEFAULT_ANIMATION_STATE_MACHINE
+    : { ...DEFAULT_ANIMATION_STATE_MACHINE, states: {}, transitions: [], layers: {} };
+
+  const layerConfigs: Record<string, AnimationLayerDefinition> = {};
+  Object.keys(defaults.layers).forEach(name => {
+    layerConfigs[name] = mergeLayer(defaults.layers[name], overrides.layers?.[name]);
+  });
+  Object.keys(overrides.layers ?? {}).forEach(name => {
+    if (!layerConfigs[name]) layerConfigs[name] = mergeLayer(undefined, overrides.layers?.[name]);
+  });
+
+  const config: AnimationStateMachineConfig = {
+    ...defaults,
+    ...overrides,
+    states: { ...defaults.states, ...overrides.states },
+    transitions: [...(overrides.transitions ?? []), ...defaults.transitions],
+    layers: layerConfigs,
+  };
+  const listeners = new Set<(state: string | null, previous: string | null, layer: string) => void>();
+
+  const createLayer = (name: string, definition: AnimationLayerDefinition, base: boolean): Layer => ({
+    name,
+    definition,
+    base,
+    state: definition.initial ?? null,
+    stateTime: 0,
+    fadeTime: definition.blendTime ?? config.blendTime,
+    states: {},
+    weight: 1,
+    strength: 0,
+  });
+
+  // The top-level states form the full-body base layer the others play over
+  const layers: Layer[] = [
+    createLayer('base', { states: config.states, transitions: config.transitions, initial: config.initial }, true),
+    ...Object.keys(config.layers).map(name => createLayer(name, config.layers[name], false)),
+  ];
+
+  let createdClips: THREE.AnimationClip[] = [];
+  const triggers = new Set<string>();
+  const params: Record<string, unknown> = {};
+
+  const findLayer = (state: string) => layers.find(layer => !!layer.states[state]);
+
+  // Blend spaces play all their clips over their weighted average length
+  const getStateDuration = (layer: Layer, name: string) => {
+    const entry = layer.states[name];
+    if (!entry) return 0;
+    if (!entry.points) return entry.clips[0].duration / Math.abs(entry.clips[0].parts[0].action.timeScale || 1);
+
+    let duration = 0;
+    entry.pointWeights.forEach((weight, i) => {
+      duration += weight * entry.clips[i].duration;
+    });
+    return duration / Math.abs(layer.definition.states[name].timeScale ?? 1);
+  };
+
+  const isFinished = (layer: Layer) => layer.state !== null &&
+    layer.definition.states[layer.state]?.loop === false &&
+    layer.stateTime >= getStateDuration(layer, layer.state);
+
+  const forEachAction = (entry: BoundState, callback: (action: THREE.AnimationAction) => void) => {
+    entry.clips.forEach(clip => clip.parts.forEach(part => callback(part.action)));
+  };
+
+  const play = (entry: BoundState) => {
+    forEachAction(entry, action => action.reset().play());
+    entry.playing = true;
+  };
+
+  const enter = (layer: Layer, next: string | null, blendTime?: number, restart = false) => {
+    if (next === layer.state && !restart) return;
+    if (next === null ? layer.base : !layer.states[next]) return;
+
+    // A state still fading out picks up from where it is instead of restarting
+    const previous = layer.state;
+    if (next !== null && (!layer.states[next].playing || restart)) play(layer.states[next]);
+    layer.state = next;
+    layer.stateTime = 0;
+    layer.fadeTime = blendTime ?? layer.definition.blendTime ?? config.blendTime;
+    listeners.forEach(listener => listener(next, previous, layer.name));
+  };
+
+  const matches = (layer: Layer, transition: AnimationTransition, context: AnimationContext) => {
+    const from = Array.isArray(transition.from) ? transition.from : [transition.from];
+    const wildcard = from.indexOf('*') !== -1;
+    if (!wildcard && (layer.state === null || from.indexOf(layer.state) === -1)) return false;
+
+    // Wildcards can't cut a non-interruptible state short
+    const interruptible = layer.state === null || (layer.definition.states[layer.state]?.interruptible ?? true);
+    if (wildcard && !interruptible && !context.stateFinished && !transition.interrupt) return false;
+
+    if (transition.trigger && !triggers.has(transition.trigger)) return false;
+    return !transition.when || transition.when(context);
+  };
+
+  // Moves the layer's state weights towards its current state and works out how much of it shows
+  const fadeLayer = (layer: Layer, context: AnimationContext, delta: number) => {
+    const step = layer.fadeTime > 0 ? delta / layer.fadeTime : 1;
+    let presence = 0;
+
+    Object.keys(layer.states).forEach(name => {
+      const entry = layer.states[name];
+      entry.weight = name === layer.state ? Math.min(entry.weight + step, 1) : Math.max(entry.weight - step, 0);
+      presence += entry.weight;
+
+      if (entry.weight === 0 && name !== layer.state && entry.playing) {
+        forEachAction(entry, action => action.stop());
+        entry.playing = false;
+      }
+    });
+
+    const { weight = 1 } = layer.definition;
+    layer.weight = layer.base ? 1 : Math.min(Math.max(typeof weight === 'function' ? weight(context) : weight, 0), 1);
+    layer.strength = layer.weight * Math.min(presence, 1);
+  };
+
+  // Spreads each state's weight over its blend space and gives way to the layers above
+  const weighLayer = (layer: Layer, context: AnimationContext) => {
+    Object.keys(layer.states).forEach(name => {
+      const entry = layer.states[name];
+      if (!entry.playing) return;
+
+      const definition = layer.definition.states[name];
+      if (entry.points) {
+        const { x, y } = definition.blendParameter ? definition.blendParameter(context) : context.velocity;
+        getBlendSpaceWeights(entry.points, x, y, entry.pointWeights);
+
+        // Scale every clip to the shared cycle length so footfalls stay in step
+        const duration = getStateDuration(layer, name) || 1;
+        entry.clips.forEach(clip => clip.parts.forEach(part => {
+          part.action.timeScale = clip.duration / duration;
+        }));
+      }
+
+      entry.clips.forEach((clip, i) => clip.parts.forEach(part => {
+        let weight = layer.weight * entry.weight * entry.pointWeights[i];
+        part.coverage.forEach(index => {
+          weight *= 1 - layers[index].strength;
+        });
+        part.action.setEffectiveWeight(weight);
+      }));
+    });
+  };
+
+  const bindState = (
+    layer: Layer,
+    index: number,
+    name: string,
+    mixer: THREE.AnimationMixer,
+    root: THREE.Object3D,
+    clips: Record<string, THREE.AnimationClip>
+  ): BoundState | null => {
+    const definition = layer.definition.states[name];
+    const points = definition.blendSpace?.filter(point => !!clips[point.clip]) ?? null;
+    const clipNames = points ? points.map(point => point.clip) : definition.clip && clips[definition.clip] ? [definition.clip] : [];
+
+    const boundClips = clipNames.map((clipName): BoundClip => {
+      let source = clips[clipName];
+      if (layer.definition.additive && source.blendMode !== THREE.AdditiveAnimationBlendMode) {
+        source = THREE.AnimationUtils.makeClipAdditive(source.clone());
+      }
+
+      // Group the tracks within the mask by the override layers above that also animate them
+      const groups: Record<string, { coverage: number[]; tracks: THREE.KeyframeTrack[] }> = {};
+      source.tracks.forEach(track => {
+        const bone = THREE.PropertyBinding.parseTrackName(track.name).nodeName;
+        if (!isInMask(layer.definition.mask, bone)) return;
+
+        const coverage: number[] = [];
+        if (!layer.definition.additive) {
+          for (let above = index + 1; above < layers.length; above++) {
+            const { additive, mask } = layers[above].definition;
+            if (!additive && isInMask(mask, bone)) coverage.push(above);
+          }
+        }
+        const key = coverage.join(',');
+        if (!groups[key]) groups[key] = { coverage, tracks: [] };
+        groups[key].tracks.push(track);
+      });
+
+      const parts = Object.keys(groups).map(key => {
+        const clip = new THREE.AnimationClip(`${layer.name}:${clipName}:${key}`, source.duration, groups[key].tracks, source.blendMode);
+        createdClips.push(clip);
+
+        const action = mixer.clipAction(clip, root);
+        if (definition.loop === false) {
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true;
+        }
+        if (definition.timeScale !== undefined) action.timeScale = definition.timeScale;
+        action.setEffectiveWeight(0);
+        return { action, coverage: groups[key].coverage };
+      });
+
+      return { parts, duration: source.duration };
+    });
+
+    // Nothing to play, e.g. the clip is missing or the mask leaves none of its tracks
+    if (boundClips.length === 0 || boundClips.every(clip => clip.parts.length === 0)) return null;
+
+    return {
+      clips: boundClips,
+      points,
+      pointWeights: boundClips.map((_, i) => i === 0 ? 1 : 0),
+      weight: 0,
+      playing: false,
+    };
+  };
+
+  return {
+    config,
+    getState: () => layers[0].state ?? config.initial,
+    getLayerState: (name) => layers.find(layer => layer.name === name)?.state ?? null,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    bind: (mixer, root, clips) => {
+      createdClips = [];
+      layers.forEach((layer, index) => {
+        layer.states = {};
+        Object.keys(layer.definition.states).forEach(name => {
+          const entry = bindState(layer, index, name, mixer, root, clips);
+          if (entry) layer.states[name] = entry;
+        });
+
+        if (layer.state !== null && !layer.states[layer.state]) {
+          const initial = layer.definition.initial ?? null;
+          layer.state = initial !== null && layer.states[initial] ? initial : null;
+        }
+        layer.stateTime = 0;
+        if (layer.state !== null) {
+          layer.states[layer.state].weight = 1;
+          play(layer.states[layer.state]);
+        }
+      });
+
+      const bound = createdClips;
+      return () => {
+        layers.forEach(layer => {
+          Object.keys(layer.states).forEach(name => forEachAction(layer.states[name], action => action.stop()));
+          layer.states = {};
+        });
+        bound.forEach(clip => mixer.uncacheClip(clip));
+      };
+    },
+    update: (input, delta) => {
+      // Each layer sees its own state's time, the strengths are needed before any weighting
+      const contexts = layers.map(layer => {
+        layer.stateTime += delta;
+        const context: AnimationContext = { ...input, params, stateTime: layer.stateTime, stateFinished: isFinished(layer) };
+
+        // The first matching transition decides, even if it asks for the current state
+        for (const transition of layer.definition.transitions) {
+          if (transition.to === null ? layer.base : !layer.states[transition.to]) continue;
+          if (!matches(layer, transition, context)) continue;
+          enter(layer, transition.to, transition.blendTime, transition.restart);
+          break;
+        }
+
+        fadeLayer(layer, context, delta);
+        return context;
+      });
+
+      // Triggers only count for the frame they were fired in
+      triggers.clear();
+
+      layers.forEach((layer, i) => weighLayer(layer, contexts[i]));
+    },
+    trigger: (name) => {
+      triggers.add(name);
+    },
+    setParameter: (name, value) => {
+      params[name] = value;
+    },
+    setState: (next, blendTime) => {
+      const layer = findLayer(next);
+      if (layer) enter(layer, next, blendTime);
+    },
+    getActions: (name) => {
+      const entry = findLayer(name)?.states[name];
+      const actions: THREE.AnimationAction[] = [];
+      if (entry) forEachAction(entry, action => actions.push(action));
+      return actions;
+    },
+    getDuration: (name) => {
+      const layer = findLayer(name);
+      return layer ? getStateDuration(layer, name) : 0;
+    },
+  };
+}
+
+// Subscribes a component to the current state of a layer, the base layer by default
+export function useAnimationState(machine: AnimationStateMachine, layer = 'base'): string | null {
+  const getSnapshot = () => machine.getLayerState(layer);
+  return React.useSyncExternalStore(machine.subscribe, getSnapshot, getSnapshot);
+}
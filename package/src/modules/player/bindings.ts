@@ -0,0 +1,266 @@
+import React from 'react';
+import type { BindingConflict, BindingsStore, BindingsStoreOptions, InputBinding, InputBindings, InputManager } from './types';
+import { DEFAULT_INPUT_BINDINGS, getBindingId } from './input';
+
+export const DEFAULT_BINDINGS_STORAGE_KEY = 'tps-controls:bindings';
+
+const cloneBindings = (bindings: InputBindings): InputBindings => {
+  const clone: InputBindings = {};
+  Object.keys(bindings).forEach(action => {
+    clone[action] = (bindings[action] ?? []).map(b => ({ ...b }));
+  });
+  return clone;
+};
+
+function isInputBinding(value: unknown): value is InputBinding {
+  if (!value || typeof value !== 'object') return false;
+  const binding = value as Record<string, unknown>;
+  switch (binding.device) {
+    case 'keyboard': return typeof binding.key === 'string';
+    case 'mouse':
+    case 'gamepad': return typeof binding.button === 'number';
+    case 'gamepadAxis': return typeof binding.axis === 'number' && (binding.direction === 1 || binding.direction === -1);
+    default: return false;
+  }
+}
+
+// Validates serialized bindings, throwing on anything that isn't an action -> binding list map
+export function parseBindings(json: string): InputBindings {
+  const data: unknown = JSON.parse(json);
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Key bindings must be a JSON object of action -> binding list');
+  }
+
+  const bindings: InputBindings = {};
+  const entries = data as Record<string, unknown>;
+  Object.keys(entries).forEach(action => {
+    const list = entries[action];
+    if (!Array.isArray(list) || !list.every(isInputBinding)) {
+      throw new Error(`Invalid key bindings for action "${action}"`);
+    }
+    bindings[action] = list;
+  });
+  return bindings;
+}
+
+const readStorage = (key: string | null): InputBindings | null => {
+  if (!key || typeof localStorage === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? parseBindings(saved) : null;
+  } catch {
+    // Corrupt or inaccessible storage falls back to the defaults
+    return null;
+  }
+};
+
+const writeStorage = (key: string | null, bindings: InputBindings) => {
+  if (!key || typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(bindings));
+  } catch {
+    // Storage full or disabled, bindings still apply for this session
+  }
+};
+
+export function createBindingsStore(overrides: Partial<BindingsStoreOptions> = {}): BindingsStore {
+  const { defaults, storageKey }: BindingsStoreOptions = {
+    defaults: DEFAULT_INPUT_BINDINGS,
+    storageKey: DEFAULT_BINDINGS_STORAGE_KEY,
+    ...overrides,
+  };
+  const listeners = new Set<(bindings: InputBindings) => void>();
+
+  // Saved bindings only override the actions they mention, so new actions keep their defaults
+  let bindings: InputBindings = { ...cloneBindings(defaults), ...readStorage(storageKey) };
+
+  const setBindings = (next: InputBindings) => {
+    bindings = next;
+    writeStorage(storageKey, bindings);
+    listeners.forEach(listener => listener(bindings));
+  };
+
+  const findConflicts = (binding: InputBinding, ignoreAction?: string) => {
+    const id = getBindingId(binding);
+    const conflicts: BindingConflict[] = [];
+    Object.keys(bindings).forEach(action => {
+      if (action === ignoreAction) return;
+      (bindings[action] ?? []).forEach((other, index) => {
+        if (getBindingId(other) === id) conflicts.push({ action, index, binding: other });
+      });
+    });
+    return conflicts;
+  };
+
+  const setActionBindings = (action: string, list: InputBinding[]) => {
+    setBindings({ ...bindings, [action]: list });
+  };
+
+  return {
+    defaults,
+    getBindings: () => bindings,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setActionBindings,
+    rebind: (action, index, binding, { unbindConflicts = false } = {}) => {
+      const conflicts = findConflicts(binding, action);
+      const next = { ...bindings };
+
+      if (unbindConflicts) {
+        conflicts.forEach(({ action: other }) => {
+          next[other] = (next[other] ?? []).filter(b => getBindingId(b) !== getBindingId(binding));
+        });
+      }
+
+      // Drop a duplicate of the same input on this action before placing it, moving the slot
+      // down past duplicates dropped ahead of it
+      const id = getBindingId(binding);
+      const current = next[action] ?? [];
+      const dropped = current.filter((b, i) => i < index && getBindingId(b) === id).length;
+      const list = current.filter((b, i) => i === index || getBindingId(b) !== id);
+      const slot = Math.min(index, current.length) - dropped;
+      list.splice(slot, slot < list.length ? 1 : 0, binding);
+      next[action] = list;
+
+      setBindings(next);
+      return conflicts;
+    },
+    unbind: (action, index) => {
+      const list = bindings[action];
+      if (!list || index < 0 || index >= list.length) return;
+      setActionBindings(action, list.filter((_, i) => i !== index));
+    },
+    findConflicts,
+    resetAction: (action) => {
+      setActionBindings(action, (defaults[action] ?? []).map(b => ({ ...b })));
+    },
+    resetAll: () => {
+      setBindings(cloneBindings(defaults));
+    },
+    exportJSON: () => JSON.stringify(bindings, null, 2),
+    importJSON: (json) => {
+      setBindings({ ...cloneBindings(defaults), ...parseBindings(json) });
+    },
+    attachInput: (input: InputManager) => {
+      input.setBindings(bindings);
+      const listener = (next: InputBindings) => input.setBindings(next);
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+// Subscribes a component to a bindings store
+export function useBindings(store: BindingsStore): InputBindings {
+  return React.useSyncExternalStore(store.subscribe, store.getBindings, store.getBindings);
+}
+
+const MOUSE_BUTTON_NAMES = ['Left Mouse', 'Middle Mouse', 'Right Mouse', 'Mouse 4', 'Mouse 5'];
+
+// Short human-readable label for a binding, e.g. "W", "Right Mouse", "Pad 7", "Stick 1-"
+export function describeBinding(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'keyboard': {
+      const { key } = binding;
+      if (key.startsWith('Key')) return key.slice(3);
+      if (key.startsWith('Digit')) return key.slice(5);
+      if (key.startsWith('Arrow')) return `${key.slice(5)} Arrow`;
+      if (key === ' ') return 'Space';
+      return key.length === 1 ? key.toUpperCase() : key;
+    }
+    case 'mouse': return MOUSE_BUTTON_NAMES[binding.button] ?? `Mouse ${binding.button + 1}`;
+    case 'gamepad': return `Pad ${binding.button}`;
+    case 'gamepadAxis': return `Stick ${binding.axis}${binding.direction > 0 ? '+' : '-'}`;
+  }
+}
+
+// Resolves with the next key, mouse button or gamepad input, or null if Escape is pressed
+// or the capture is cancelled. Returns the promise along with its cancel function.
+export function captureNextBinding(target: Document | HTMLElement = document): { promise: Promise<InputBinding | null>; cancel: () => void } {
+  let cancel = () => {};
+
+  const promise = new Promise<InputBinding | null>((resolve) => {
+    let frame = 0;
+    // Pads already held when capture starts have to be released before they count
+    const ignoredPad = new Set<string>();
+
+    const finish = (binding: InputBinding | null) => {
+      target.removeEventListener('keydown', handleKeyDown as EventListener, true);
+      target.removeEventListener('mousedown', handleMouseDown as EventListener, true);
+      if (frame) cancelAnimationFrame(frame);
+      resolve(binding);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code === 'Escape') finish(null);
+      // Modifiers are matched by key so either side works, everything else by physical code
+      else if (e.key === 'Shift' || e.key === 'Control' || e.key === 'Alt' || e.key === 'Meta') finish({ device: 'keyboard', key: e.key });
+      else finish({ device: 'keyboard', key: e.code });
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      swallowClick(e.button);
+      finish({ device: 'mouse', button: e.button });
+    };
+
+    // The click that ends a mouse capture would still reach whatever is under the cursor, e.g.
+    // another binding or the reset button in the menu. It follows mouseup in the same task, so
+    // the listeners go right after and can't eat a later click when none comes.
+    const swallowClick = (button: number) => {
+      const types = button === 0 ? ['click'] : button === 2 ? ['auxclick', 'contextmenu'] : ['auxclick'];
+      const swallow = (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+      };
+      const handleMouseUp = () => {
+        target.removeEventListener('mouseup', handleMouseUp, true);
+        setTimeout(() => types.forEach(type => target.removeEventListener(type, swallow, true)), 0);
+      };
+      types.forEach(type => target.addEventListener(type, swallow, true));
+      target.addEventListener('mouseup', handleMouseUp, true);
+    };
+
+    const pollGamepads = () => {
+      const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+      for (const pad of pads) {
+        if (!pad) continue;
+        for (let i = 0; i < pad.buttons.length; i++) {
+          const id = `${pad.index}:button:${i}`;
+          if (!pad.buttons[i].pressed) ignoredPad.delete(id);
+          else if (!ignoredPad.has(id)) return finish({ device: 'gamepad', button: i });
+        }
+        for (let i = 0; i < pad.axes.length; i++) {
+          const id = `${pad.index}:axis:${i}`;
+          if (Math.abs(pad.axes[i]) < 0.5) ignoredPad.delete(id);
+          else if (!ignoredPad.has(id)) return finish({ device: 'gamepadAxis', axis: i, direction: pad.axes[i] > 0 ? 1 : -1 });
+        }
+      }
+      frame = requestAnimationFrame(pollGamepads);
+    };
+
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad) continue;
+      pad.buttons.forEach((button, i) => button.pressed && ignoredPad.add(`${pad.index}:button:${i}`));
+      pad.axes.forEach((value, i) => Math.abs(value) >= 0.5 && ignoredPad.add(`${pad.index}:axis:${i}`));
+    }
+
+    // Capture phase so the key never reaches the game's own listeners
+    target.addEventListener('keydown', handleKeyDown as EventListener, true);
+    target.addEventListener('mousedown', handleMouseDown as EventListener, true);
+    frame = requestAnimationFrame(pollGamepads);
+    cancel = () => finish(null);
+  });
+
+  return { promise, cancel };
+}
@@ -0,0 +1,47 @@
+import type { BlendSpacePoint } from './types';
+
+// Gradient band interpolation over freely placed points: each point's influence falls off
+// towards every other point, so weights are exact on a point, blend smoothly between
+// neighbours and always sum to 1. Fills and returns `out`.
+export function getBlendSpaceWeights(points: BlendSpacePoint[], x: number, y: number, out: number[] = []): number[] {
+  out.length = points.length;
+  let total = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const px = x - points[i].x;
+    const py = y - points[i].y;
+    let weight = 1;
+
+    for (let j = 0; j < points.length && weight > 0; j++) {
+      if (j === i) continue;
+      const ex = points[j].x - points[i].x;
+      const ey = points[j].y - points[i].y;
+      const lengthSq = ex * ex + ey * ey;
+      if (lengthSq === 0) continue;
+      weight = Math.min(weight, 1 - (px * ex + py * ey) / lengthSq);
+    }
+
+    out[i] = Math.max(weight, 0);
+    total += out[i];
+  }
+
+  // Outside the hull everything can reach zero, so fall back to the nearest point
+  if (total <= 0) {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    for (let i = 0; i < points.length; i++) {
+      const dx = x - points[i].x;
+      const dy = y - points[i].y;
+      const distance = dx * dx + dy * dy;
+      if (distance < nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    }
+    for (let i = 0; i < points.length; i++) out[i] = i === nearest ? 1 : 0;
+    return out;
+  }
+
+  for (let i = 0; i < points.length; i++) out[i] /= total;
+  return out;
+}
@@ -0,0 +1,82 @@
+import * as THREE from 'three';
+import type { BoneMap, BoneMatcher, BoneResolution, BoneRole, Rig } from './types';
+
+// Mixamo names, with any prefix such as mixamorig: or mixamorig1:
+export const DEFAULT_BONE_MAP: BoneMap = {
+  hips: /Hips$/,
+  spine: /Spine$/,
+  chest: /Spine2$/,
+  neck: /Neck$/,
+  head: /Head$/,
+  leftUpperArm: /LeftArm$/,
+  leftLowerArm: /LeftForeArm$/,
+  leftHand: /LeftHand$/,
+  rightUpperArm: /RightArm$/,
+  rightLowerArm: /RightForeArm$/,
+  rightHand: /RightHand$/,
+  rightHandIndex: /RightHandIndex1$/,
+  leftUpperLeg: /LeftUpLeg$/,
+  leftLowerLeg: /LeftLeg$/,
+  leftFoot: /LeftFoot$/,
+  rightUpperLeg: /RightUpLeg$/,
+  rightLowerLeg: /RightLeg$/,
+  rightFoot: /RightFoot$/,
+};
+
+// Collects the skeleton and skinned meshes of a loaded model
+export function findRig(root: THREE.Object3D): Rig {
+  const bones: THREE.Bone[] = [];
+  const skinnedMeshes: THREE.SkinnedMesh[] = [];
+
+  root.traverse(object => {
+    if ((object as THREE.Bone).isBone) bones.push(object as THREE.Bone);
+    if ((object as THREE.SkinnedMesh).isSkinnedMesh) skinnedMeshes.push(object as THREE.SkinnedMesh);
+  });
+
+  return {
+    bones,
+    rootBones: bones.filter(bone => !(bone.parent as THREE.Bone | null)?.isBone),
+    skinnedMeshes,
+  };
+}
+
+function matchesBone(candidate: string | RegExp, name: string): boolean {
+  if (candidate instanceof RegExp) return candidate.test(name);
+  return candidate === name || THREE.PropertyBinding.sanitizeNodeName(candidate) === name;
+}
+
+function findBone(bones: THREE.Bone[], matcher: BoneMatcher): THREE.Bone | undefined {
+  const candidates = Array.isArray(matcher) ? matcher : [matcher];
+  for (const candidate of candidates) {
+    const bone = bones.find(b => matchesBone(candidate, b.name));
+    if (bone) return bone;
+  }
+  return undefined;
+}
+
+export function resolveBones(bones: THREE.Bone[], map: BoneMap = DEFAULT_BONE_MAP): BoneResolution {
+  const resolution: BoneResolution = { bones: {}, missing: [] };
+
+  (Object.keys(map) as BoneRole[]).forEach(role => {
+    const bone = findBone(bones, map[role]);
+    if (bone) resolution.bones[role] = bone;
+    else resolution.missing.push(role);
+  });
+
+  return resolution;
+}
+
+// Explains which roles found no bone, what was looked for and what the rig has instead
+export function describeMissingBones(resolution: BoneResolution, map: BoneMap, bones: THREE.Bone[]): string {
+  const lines = resolution.missing.map(role => {
+    const matcher = map[role];
+    const wanted = (Array.isArray(matcher) ? matcher : [matcher]).map(candidate => String(candidate)).join(' or ');
+    return `  ${role}: no bone matches ${wanted}`;
+  });
+
+  return [
+    `tps-controls: ${resolution.missing.length} bone(s) not found, the features using them are disabled. Map them with the boneMap prop:`,
+    ...lines,
+    `Bones in the model: ${bones.map(bone => bone.name).join(', ')}`,
+  ].join('\n');
+}
@@ -1,97 +1,301 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
-import type { CameraParams } from './types';
-import { DEFAULT_CAMERA_FOV, ZOOM_CAMERA_FOV } from './constants';
+import type { CameraCollisionState, CameraParams, CameraRigConfig, CameraRigOptions, CameraRigPreset, CameraShoulderState, CameraViewConfig, RapierModule } from './types';
+import { AIM_PITCH_DOWN, AIM_PITCH_UP, DEFAULT_CAMERA_FOV, ZOOM_CAMERA_FOV } from './constants';
 
-// Camera collision detection function with enhanced multi-ray sampling
-function checkCameraCollision(
-  playerPosition: THREE.Vector3, 
-  cameraPosition: THREE.Vector3, 
-   
-  world: any, // RAPIER world - using any to avoid version conflicts
-  minDistance = 0.2 // Minimum distance from player when collision occurs
-): { position: THREE.Vector3; hasCollision: boolean } {
-  if (!world) {
-    return { position: cameraPosition, hasCollision: false }; // No collision detection if world not available
-  }
+// The original framing: a high orbit looking at the player, and a close right-shoulder aim
+const CLASSIC_THIRD_PERSON: CameraRigConfig = {
+  hip: {
+    distance: 3,
+    pitchDistance: 4,
+    height: -0.1,
+    shoulderOffset: 0,
+    lookAt: 'player',
+    lookHeight: 0.5,
+    fov: DEFAULT_CAMERA_FOV,
+    zoom: 2,
+    near: 0.1,
+    damping: 0.1,
+  },
+  ads: {
+    distance: 0.3,
+    pitchDistance: 0,
+    height: 0.05,
+    shoulderOffset: 0.35,
+    lookAt: 'aim',
+    lookHeight: 1.5,
+    fov: ZOOM_CAMERA_FOV,
+    zoom: 1,
+    near: 0.01, // Small enough not to clip the model this close
+    damping: 0.2,
+  },
+  fovDamping: 0.15,
+  pitchLimits: [AIM_PITCH_UP, AIM_PITCH_DOWN],
+  shoulderDamping: 0.1,
+  autoShoulderSwap: true,
+  shoulderClearance: 0.3,
+  collisionRadius: 0.2,
+  collisionPullIn: 0.5,
+  collisionEaseOut: 0.05,
+  collisionIgnoreMass: 2,
+};
 
-  const direction = new THREE.Vector3()
-    .subVectors(cameraPosition, playerPosition)
-    .normalize();
-  
-  const fullDistance = playerPosition.distanceTo(cameraPosition);
-  const playerHeadPosition = playerPosition.clone().add(new THREE.Vector3(0, 1.6, 0)); // Player head height
-  
-  // Main ray from player head towards camera
-  const mainRay = new RAPIER.Ray(
-    {
-      x: playerHeadPosition.x,
-      y: playerHeadPosition.y,
-      z: playerHeadPosition.z
+export const CAMERA_RIG_PRESETS: Record<CameraRigPreset, CameraRigConfig> = {
+  'classic-third-person': CLASSIC_THIRD_PERSON,
+  // Head height beside the right shoulder, looking past the player
+  'over-the-shoulder': {
+    hip: {
+      distance: 2.2,
+      pitchDistance: 0.5,
+      height: 0.05,
+      shoulderOffset: 0.6,
+      lookAt: 'aim',
+      lookHeight: 0,
+      fov: 60,
+      zoom: 1,
+      near: 0.05,
+      damping: 0.15,
     },
-    {
-      x: direction.x,
-      y: direction.y,
-      z: direction.z
-    }
+    ads: {
+      distance: 1,
+      pitchDistance: 0,
+      height: 0,
+      shoulderOffset: 0.45,
+      lookAt: 'aim',
+      lookHeight: 0,
+      fov: 40,
+      zoom: 1,
+      near: 0.05,
+      damping: 0.25,
+    },
+    fovDamping: 0.15,
+    pitchLimits: [AIM_PITCH_UP, AIM_PITCH_DOWN],
+    shoulderDamping: 0.1,
+    autoShoulderSwap: true,
+    shoulderClearance: 0.4,
+    collisionRadius: 0.2,
+    collisionPullIn: 0.5,
+    collisionEaseOut: 0.05,
+    collisionIgnoreMass: 2,
+  },
+  // Tight and low for melee range, with a wide field of view
+  'close-action': {
+    hip: {
+      distance: 1.6,
+      pitchDistance: 0.8,
+      height: -0.25,
+      shoulderOffset: 0.4,
+      lookAt: 'aim',
+      lookHeight: -0.15,
+      fov: 70,
+      zoom: 1,
+      near: 0.05,
+      damping: 0.2,
+    },
+    ads: {
+      distance: 0.8,
+      pitchDistance: 0,
+      height: -0.05,
+      shoulderOffset: 0.4,
+      lookAt: 'aim',
+      lookHeight: 0,
+      fov: 45,
+      zoom: 1,
+      near: 0.03,
+      damping: 0.3,
+    },
+    fovDamping: 0.2,
+    pitchLimits: [-Math.PI / 4, Math.PI / 4],
+    shoulderDamping: 0.15,
+    autoShoulderSwap: true,
+    shoulderClearance: 0.3,
+    collisionRadius: 0.15,
+    collisionPullIn: 0.6,
+    collisionEaseOut: 0.08,
+    collisionIgnoreMass: 2,
+  },
+};
+
+export const DEFAULT_CAMERA_RIG = CLASSIC_THIRD_PERSON;
+
+// The aim view looks slightly to the side of the line of fire, to frame it past the shoulder
+const AIM_LOOK_BIAS = 0.1;
+const AIM_LOOK_DISTANCE = 15; // m
+const MIN_FOCUS_DISTANCE = 1; // m
+
+// Extra room the preferred shoulder needs before the camera returns to it, so it doesn't
+// flip back and forth along a wall's edge
+const SHOULDER_RETURN_MARGIN = 0.25; // m
+
+// Closest the camera is pulled in to the head
+const MIN_CAMERA_DISTANCE = 0.2; // m
+
+const sideDirection = new THREE.Vector3();
+const target = new THREE.Vector3();
+const aimOrigin = new THREE.Vector3();
+const cameraOffset = new THREE.Vector3();
+const boomDirection = new THREE.Vector3();
+const aimDirection = new THREE.Vector3();
+const aimQuaternion = new THREE.Quaternion();
+const aimRotation = new THREE.Euler(0, 0, 0, 'YXZ');
+const identityRotation = { x: 0, y: 0, z: 0, w: 1 };
+const cameraRay = new RAPIER.Ray(target, boomDirection);
+
+// The ball swept along the boom, made once per Rapier module and resized in place
+let boomBall: InstanceType<RapierModule['Ball']> | null = null;
+let boomBallModule: RapierModule | null = null;
+
+// Mass under which dynamic bodies are left out of the current boom cast
+let ignoredPropMass = 0;
+
+export function resolveCameraRig(rig: CameraRigPreset | CameraRigOptions = {}): CameraRigConfig {
+  if (typeof rig === 'string') return CAMERA_RIG_PRESETS[rig];
+
+  const preset = CAMERA_RIG_PRESETS[rig.preset ?? 'classic-third-person'];
+  return {
+    hip: { ...preset.hip, ...rig.hip },
+    ads: { ...preset.ads, ...rig.ads },
+    fovDamping: rig.fovDamping ?? preset.fovDamping,
+    pitchLimits: rig.pitchLimits ?? preset.pitchLimits,
+    shoulderDamping: rig.shoulderDamping ?? preset.shoulderDamping,
+    autoShoulderSwap: rig.autoShoulderSwap ?? preset.autoShoulderSwap,
+    shoulderClearance: rig.shoulderClearance ?? preset.shoulderClearance,
+    collisionRadius: rig.collisionRadius ?? preset.collisionRadius,
+    collisionPullIn: rig.collisionPullIn ?? preset.collisionPullIn,
+    collisionEaseOut: rig.collisionEaseOut ?? preset.collisionEaseOut,
+    collisionIgnoreMass: rig.collisionIgnoreMass ?? preset.collisionIgnoreMass,
+  };
+}
+
+export function createShoulderState(side: 1 | -1 = 1): CameraShoulderState {
+  return { preferred: side, side, blend: side, focusDistance: AIM_LOOK_DISTANCE };
+}
+
+export function createCameraCollisionState(): CameraCollisionState {
+  return { pull: 0 };
+}
+
+// Mirrors the shoulder views to the other side
+export function swapShoulder(state: CameraShoulderState): void {
+  state.preferred = state.preferred === 1 ? -1 : 1;
+  state.side = state.preferred;
+}
+
+// Points the shared ray without allocating one per cast
+function setCameraRay(origin: THREE.Vector3, direction: THREE.Vector3): RAPIER.Ray {
+  cameraRay.origin = origin;
+  cameraRay.dir = direction;
+  return cameraRay;
+}
+
+function getBoomBall(rapier: RapierModule, radius: number): InstanceType<RapierModule['Ball']> {
+  if (!boomBall || boomBallModule !== rapier) {
+    boomBall = new rapier.Ball(radius);
+    boomBallModule = rapier;
+  }
+  boomBall.radius = radius;
+  return boomBall;
+}
+
+// Small props knocked about near the player shouldn't jerk the camera in and out
+function isCameraObstacle(collider: RAPIER.Collider): boolean {
+  const body = collider.parent();
+  return !body || !body.isDynamic() || body.mass() >= ignoredPropMass;
+}
+
+// Whether a wall stands within reach beside the head, on the side the camera takes for `side`
+function isShoulderBlocked(
+  origin: THREE.Vector3,
+  playerYRotation: THREE.Quaternion,
+  lateral: number, // -1 or 1 along the player's local x
+  reach: number,
+   
+  world: any, // RAPIER world - using any to avoid version conflicts
+  controls: CameraParams['controls']
+): boolean {
+  sideDirection.set(lateral, 0, 0).applyQuaternion(playerYRotation);
+  return !!world.castRay(
+    setCameraRay(origin, sideDirection),
+    reach,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls?.current ?? undefined
   );
+}
+
+// Moves to the other shoulder while the preferred one is against a wall and the other has
+// room, and back once the preferred side is clear again
+function updateShoulder(
+  state: CameraShoulderState,
+  view: CameraViewConfig,
+  rig: CameraRigConfig,
+  origin: THREE.Vector3,
+  playerYRotation: THREE.Quaternion,
+   
+  world: any, // RAPIER world - using any to avoid version conflicts
+  controls: CameraParams['controls']
+): void {
+  if (rig.autoShoulderSwap && world && view.shoulderOffset !== 0) {
+    const reach = Math.abs(view.shoulderOffset) + rig.shoulderClearance;
+    const lateral = -Math.sign(view.shoulderOffset) * state.preferred;
+    const swapped = state.side !== state.preferred;
 
-  let closestHit = world.castRay(mainRay, fullDistance, true);
-  let shortestDistance = closestHit ? closestHit.timeOfImpact : fullDistance;
-
-  // Additional rays with offset directions to create a detection cone
-  // This is more effective than parallel rays as it simulates camera volume collision
-  const directionOffsets = [
-    { x: 0.05, y: 0.05, z: 0 },   // Up-right
-    { x: -0.05, y: 0.05, z: 0 },  // Up-left  
-    { x: 0.05, y: -0.05, z: 0 },  // Down-right
-    { x: -0.05, y: -0.05, z: 0 }, // Down-left
-    { x: 0, y: 0.08, z: 0 },      // Straight up
-    { x: 0, y: -0.08, z: 0 },     // Straight down
-    { x: 0.08, y: 0, z: 0 },      // Straight right
-    { x: -0.08, y: 0, z: 0 }      // Straight left
-  ];
-
-  // Cast additional rays with offset directions to create a cone of detection
-  for (const dirOffset of directionOffsets) {
-    // Create slightly offset direction vector
-    const offsetDirection = new THREE.Vector3(
-      direction.x + dirOffset.x,
-      direction.y + dirOffset.y, 
-      direction.z + dirOffset.z
-    ).normalize();
-
-    const offsetRay = new RAPIER.Ray({
-      x: playerHeadPosition.x,
-      y: playerHeadPosition.y,
-      z: playerHeadPosition.z
-    }, {
-      x: offsetDirection.x,
-      y: offsetDirection.y,
-      z: offsetDirection.z
-    });
-
-    const hit = world.castRay(offsetRay, fullDistance, true);
-    if (hit && hit.timeOfImpact < shortestDistance) {
-      shortestDistance = hit.timeOfImpact;
-      closestHit = hit;
+    if (!isShoulderBlocked(origin, playerYRotation, lateral, reach + (swapped ? SHOULDER_RETURN_MARGIN : 0), world, controls)) {
+      state.side = state.preferred;
+    } else if (!swapped && !isShoulderBlocked(origin, playerYRotation, -lateral, reach, world, controls)) {
+      state.side = state.preferred === 1 ? -1 : 1;
     }
   }
-  
-  if (closestHit && shortestDistance < fullDistance - 0.3) { // Larger buffer to avoid false positives
-    // There's an obstacle between player and camera
-    // Place camera just before the obstacle, but not closer than minDistance
-    const safeDistance = Math.max(shortestDistance - 0.2, minDistance);
-    
-    const adjustedPosition = new THREE.Vector3()
-      .copy(playerHeadPosition)
-      .add(direction.multiplyScalar(safeDistance));
-      
-    return { position: adjustedPosition, hasCollision: true };
+
+  state.blend += (state.side - state.blend) * rig.shoulderDamping;
+}
+
+// Sweeps the camera ball from the head towards the camera and returns how far out it fits,
+// or how far a ray gets less the ball's radius without the Rapier module to make the ball
+function castCameraBoom(
+  origin: THREE.Vector3,
+  direction: THREE.Vector3,
+  length: number,
+  rig: CameraRigConfig,
+   
+  world: any, // RAPIER world - using any to avoid version conflicts
+  rapier: RapierModule | undefined,
+  controls: CameraParams['controls']
+): number {
+  ignoredPropMass = rig.collisionIgnoreMass;
+  const predicate = ignoredPropMass > 0 ? isCameraObstacle : undefined;
+
+  if (rapier) {
+    const hit = world.castShape(
+      origin,
+      identityRotation,
+      direction,
+      getBoomBall(rapier, rig.collisionRadius),
+      0,
+      length,
+      false, // Let a ball starting against a wall beside the head move away from it
+      RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+      undefined,
+      undefined,
+      controls?.current ?? undefined,
+      predicate
+    );
+    return hit ? hit.time_of_impact : length;
   }
-  
-  // No collision, use ideal position
-  return { position: cameraPosition, hasCollision: false };
+
+  const hit = world.castRay(
+    setCameraRay(origin, direction),
+    length,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls?.current ?? undefined,
+    predicate
+  );
+  return hit ? hit.timeOfImpact - rig.collisionRadius : length;
 }
 
 export function updateCamera({
@@ -102,103 +306,94 @@ export function updateCamera({
   pitch,
   yaw,
   camera,
+  heightOffset = 0,
+  rig = DEFAULT_CAMERA_RIG,
+  shoulder,
+  controls,
+  collision,
+  collide = true,
+  rapier,
   world
 }: CameraParams): void {
-  // Camera positioning - RESTORED TO ORIGINAL IMPLEMENTATION
-  const amplitude = zoom.current ? 0.2 : 4;
-  const adder = zoom.current ? 0.1 : 3;
-  const zoomAdjuster = zoom.current ? Math.cos(pitch) : Math.sin(pitch);
-  const cameraDistance = amplitude * (zoomAdjuster) + adder; // Adjust camera distance based on pitch
-  const baseCameraHeight = zoom.current ? 1.65 : 1.5; // Base height of the camera above the player
-  const orbitAngle = pitch;
-
-  const cameraOffset = new THREE.Vector3(
-    zoom.current ? -0.35 : 0,
-    Math.sin(orbitAngle) * cameraDistance + baseCameraHeight, // Adjust height based on pitch
-    -Math.cos(orbitAngle) * cameraDistance
-  ); // Move camera further back
-  
-  cameraOffset.applyQuaternion(playerYRotation);
-
-  const targetCameraPos = new THREE.Vector3(
-    smoothedPlayerPosition.current.x + cameraOffset.x,
-    smoothedPlayerPosition.current.y + cameraOffset.y - 1.6, // Subtract the offset we added
-    smoothedPlayerPosition.current.z + cameraOffset.z
-  );
+  // Everything below frames this target, lowered for crouching and prone
+  target.copy(smoothedPlayerPosition.current);
+  target.y -= heightOffset;
 
-  // Apply camera collision detection - CONSERVATIVE APPROACH
-  const playerHeadPosition = smoothedPlayerPosition.current.clone();
-  
-  // Start with the natural camera position
-  let finalCameraPosition = targetCameraPos;
-  
-  // Only check collision if world exists
-  if (world) {
-    const naturalDistance = targetCameraPos.distanceTo(playerHeadPosition);
-    
-    const collisionResult = checkCameraCollision(
-      playerHeadPosition,
-      targetCameraPos,
-      world,
-      0.2 // Very small minimum distance - only prevent clipping through walls
-    );
-    
-    // Only use collision adjustment if:
-    // 1. Collision was detected
-    // 2. The collision adjustment is actually closer than natural position
-    if (collisionResult.hasCollision) {
-      const collisionDistance = collisionResult.position.distanceTo(playerHeadPosition);
-      
-      // Only use collision position if it's actually pulling the camera closer
-      if (collisionDistance < naturalDistance - 0.1) { // Small threshold to avoid micro-adjustments
-        finalCameraPosition = collisionResult.position;
-      }
-    }
-  }
+  const view = zoom.current ? rig.ads : rig.hip;
+  aimOrigin.copy(target);
+  aimOrigin.y += view.lookHeight;
+
+  // Shoulder side, easing across after a swap
+  if (shoulder) updateShoulder(shoulder, view, rig, target, playerYRotation, world, controls);
+  const side = shoulder ? shoulder.blend : 1;
 
-  // Use original lerp speed - no enhanced smoothing
-  const finalLerpSpeed = zoom.current ? 0.2 : 0.1;
-  
-  smoothedCameraPosition.current.lerp(finalCameraPosition, finalLerpSpeed);
+  // Orbit behind the player with the pitch, further out when looking down
+  const cameraDistance = view.distance + view.pitchDistance * Math.sin(pitch);
+  cameraOffset.set(
+    -view.shoulderOffset * side,
+    Math.sin(pitch) * cameraDistance + view.height,
+    -Math.cos(pitch) * cameraDistance
+  ).applyQuaternion(playerYRotation);
+
+  // The smoothed position ignores obstacles, so leaving them doesn't fight the view's damping
+  smoothedCameraPosition.current.lerp(cameraOffset.add(target), view.damping);
   camera.position.copy(smoothedCameraPosition.current);
 
+  // Pull the camera in along the boom from the head to keep it out of walls, quickly when
+  // something comes between and slowly back out once it's gone
+  boomDirection.subVectors(smoothedCameraPosition.current, target);
+  const boomLength = boomDirection.length();
+  if (world && collide && boomLength > MIN_CAMERA_DISTANCE) {
+    boomDirection.divideScalar(boomLength);
+    const clearance = castCameraBoom(target, boomDirection, boomLength, rig, world, rapier, controls);
+    let pull = Math.max(boomLength - clearance, 0);
+
+    if (collision) {
+      collision.pull += (pull - collision.pull) * (pull > collision.pull ? rig.collisionPullIn : rig.collisionEaseOut);
+      pull = collision.pull;
+    }
+
+    const distance = Math.max(boomLength - pull, MIN_CAMERA_DISTANCE);
+    camera.position.copy(target).addScaledVector(boomDirection, distance);
+  }
+
   // Type guard to check if camera is PerspectiveCamera
   if (camera instanceof THREE.PerspectiveCamera) {
-    // Smooth FOV transition between default and zoom FOV
-    const targetFov = zoom.current ? ZOOM_CAMERA_FOV : DEFAULT_CAMERA_FOV;
-    camera.fov += (targetFov - camera.fov) * 0.15;
-    camera.zoom = zoom.current ? 1 : 2;
-
-    // Make near plane smaller while zooming to avoid clipping with the model
-    camera.near = zoom.current ? 0.01 : 0.1;
+    // Smooth FOV transition between the views
+    camera.fov += (view.fov - camera.fov) * rig.fovDamping;
+    camera.zoom = view.zoom;
+    camera.near = view.near;
 
     camera.updateProjectionMatrix();
   }
 
-  // Camera rotation - RESTORED TO ORIGINAL IMPLEMENTATION
-  if (zoom.current) {
-    // Look in the direction of the gun point
-    // Use right palm as aim origin if available
-    const aimOrigin = new THREE.Vector3();
-    
-    aimOrigin.copy(smoothedPlayerPosition.current).add(new THREE.Vector3(0, 1.5, 0));
-    
-
-    // Compute aim direction from yaw/pitch (match shooting direction)
-    const aimQuat = new THREE.Quaternion().setFromEuler(
-      new THREE.Euler(-pitch, yaw + Math.PI, 0, 'YXZ')
-    );
-    const aimDir = new THREE.Vector3(0.1, 0, -1).applyQuaternion(aimQuat);
+  if (view.lookAt === 'aim') {
+    // Look along the aim direction from the look height (match shooting direction)
+    aimQuaternion.setFromEuler(aimRotation.set(-pitch, yaw + Math.PI, 0));
+    aimDirection.set(AIM_LOOK_BIAS * side, 0, -1).applyQuaternion(aimQuaternion).normalize();
 
-    const aimTarget = aimOrigin.clone().add(aimDir.multiplyScalar(15));
-    camera.lookAt(aimTarget);
+    // Centre the view on whatever the aim runs into, so the crosshair stays on it while the
+    // camera crosses to the other shoulder
+    let focusDistance = AIM_LOOK_DISTANCE;
+    if (shoulder) {
+      const hit = world?.castRay(
+        setCameraRay(aimOrigin, aimDirection),
+        AIM_LOOK_DISTANCE,
+        true,
+        RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+        undefined,
+        undefined,
+        controls?.current ?? undefined
+      );
+      const hitDistance = hit ? Math.max(hit.timeOfImpact, MIN_FOCUS_DISTANCE) : AIM_LOOK_DISTANCE;
+      shoulder.focusDistance += (hitDistance - shoulder.focusDistance) * view.damping;
+      focusDistance = shoulder.focusDistance;
+    }
 
+    camera.lookAt(aimOrigin.addScaledVector(aimDirection, focusDistance));
   } else {
-     // Default: look at player
-    camera.lookAt(
-      smoothedPlayerPosition.current.clone().add(new THREE.Vector3(0, 0.5, 0))
-    );
-
+    // Look at the player
+    camera.lookAt(aimOrigin);
   }
 }
 
@@ -1,6 +1,10 @@
 export const MOVE_SPEED = 2;
 export const RUN_MULTIPLIER = 2;
 export const MOUSE_SENSITIVITY = 0.002;
+export const AIM_PITCH_UP = -Math.PI / 5; // Furthest look up, radians
+export const AIM_PITCH_DOWN = Math.PI / 3; // Furthest look down, radians
+export const TOUCH_LOOK_SENSITIVITY = 0.005;
+export const ANALOG_MOVE_THRESHOLD = 0.3; // Move vector component needed to count as a direction
 export const RECOIL_STRENGTH = 0.1;
 export const RECOIL_DURATION = 150; // milliseconds
 export const MUZZLE_FLASH_DURATION = 50; // milliseconds - very quick flash
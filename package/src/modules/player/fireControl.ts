@@ -0,0 +1,71 @@
+import type { FireControlParams, FireMode, TriggerState, WeaponDefinition } from './types';
+import { getShotInterval } from './weapons';
+
+export function createTriggerState(): TriggerState {
+  return {
+    held: false,
+    pressed: false,
+    cooldown: 0,
+    burstRemaining: 0,
+    modeIndex: 0,
+  };
+}
+
+export function getFireModes(weapon: WeaponDefinition): FireMode[] {
+  return weapon.fireModes && weapon.fireModes.length > 0 ? weapon.fireModes : ['semi'];
+}
+
+export function getFireMode(trigger: TriggerState, weapon: WeaponDefinition): FireMode {
+  const modes = getFireModes(weapon);
+  return modes[trigger.modeIndex % modes.length];
+}
+
+// Advances to the weapon's next fire mode and returns it
+export function cycleFireMode(trigger: TriggerState, weapon: WeaponDefinition): FireMode {
+  trigger.modeIndex = (trigger.modeIndex + 1) % getFireModes(weapon).length;
+  trigger.burstRemaining = 0;
+  return getFireMode(trigger, weapon);
+}
+
+// Runs the frame-based fire cooldown and fires as many shots as the elapsed
+// time allows, so the fire rate holds at any frame rate. Returns shots fired.
+export function handleFireControl({
+  trigger,
+  weapon,
+  delta,
+  fire
+}: FireControlParams): number {
+  const interval = getShotInterval(weapon) / 1000;
+  const mode = getFireMode(trigger, weapon);
+  let shots = 0;
+
+  trigger.cooldown -= delta;
+
+  while (trigger.cooldown <= 0) {
+    if (trigger.burstRemaining <= 0) {
+      if (mode === 'auto') {
+        if (!trigger.held) break;
+      } else if (trigger.pressed) {
+        trigger.pressed = false;
+        if (mode === 'burst') trigger.burstRemaining = Math.max(weapon.burstCount ?? 3, 1);
+      } else {
+        break;
+      }
+    }
+
+    if (!fire()) {
+      trigger.burstRemaining = 0;
+      break;
+    }
+
+    if (trigger.burstRemaining > 0) trigger.burstRemaining -= 1;
+    trigger.cooldown += interval;
+    shots++;
+  }
+
+  // Presses during the cooldown are dropped, and idle time doesn't bank shots
+  trigger.pressed = false;
+  trigger.cooldown = Math.max(trigger.cooldown, 0);
+
+  return shots;
+}
@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import { DEFAULT_BONE_MAP, resolveBones } from './bones';
+import type { BoneMap, BoneResolution, BoneRole, FirstPersonCameraParams, FirstPersonConfig } from './types';
+
+export const DEFAULT_FIRST_PERSON_CONFIG: FirstPersonConfig = {
+  headOffset: [0, 0.08, 0.12],
+  fov: 80,
+  adsFov: 55,
+  fovDamping: 0.15,
+  near: 0.05,
+  hide: 'head',
+  armsOffset: [0, -0.15, -0.05],
+  armsScale: 0.01,
+};
+
+// The head shrinks to its bone rather than being hidden, as it shares a skinned mesh with the body
+const HIDDEN_HEAD_SCALE = 1e-4;
+
+// Eye height above the feet for models without a head bone
+const FALLBACK_EYE_HEIGHT = 1.6; // m
+
+const ARM_ROLES: BoneRole[] = ['leftUpperArm', 'leftLowerArm', 'leftHand', 'rightUpperArm', 'rightLowerArm', 'rightHand', 'rightHandIndex'];
+
+const eyeOffset = new THREE.Vector3();
+const lookRotation = new THREE.Euler(0, 0, 0, 'YXZ');
+
+// Puts the camera at the character's eyes, looking along the aim so shooting is unchanged
+export function updateFirstPersonCamera({
+  camera,
+  head,
+  smoothedPlayerPosition,
+  smoothedCameraPosition,
+  playerYRotation,
+  pitch,
+  yaw,
+  zoom,
+  heightOffset = 0,
+  config = DEFAULT_FIRST_PERSON_CONFIG
+}: FirstPersonCameraParams): void {
+  if (head) {
+    head.getWorldPosition(camera.position);
+  } else {
+    camera.position.copy(smoothedPlayerPosition.current);
+    camera.position.y += FALLBACK_EYE_HEIGHT - heightOffset;
+  }
+
+  eyeOffset.set(...config.headOffset).applyQuaternion(playerYRotation);
+  camera.position.add(eyeOffset);
+  camera.quaternion.setFromEuler(lookRotation.set(-pitch, yaw + Math.PI, 0));
+  smoothedCameraPosition.current.copy(camera.position);
+
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const fov = zoom.current ? config.adsFov : config.fov;
+    camera.fov += (fov - camera.fov) * config.fovDamping;
+    camera.zoom = 1;
+    camera.near = config.near;
+
+    camera.updateProjectionMatrix();
+  }
+}
+
+// Collapses or restores the head, call after the mixer as clips with scale tracks reset it
+export function setHeadHidden(bones: BoneResolution['bones'], hidden: boolean): void {
+  bones.head?.scale.setScalar(hidden ? HIDDEN_HEAD_SCALE : 1);
+}
+
+// Pairs an arms rig's bones with the character's: the arm roles through the bone map, and
+// the bones below the upper arms, such as fingers, by name
+export function pairArmsBones(
+  arms: THREE.Bone[],
+  source: BoneResolution['bones'],
+  map: BoneMap = DEFAULT_BONE_MAP
+): [target: THREE.Bone, source: THREE.Bone][] {
+  const armRoles = resolveBones(arms, map).bones;
+  const pairs: [THREE.Bone, THREE.Bone][] = [];
+  const paired = new Set<THREE.Bone>();
+
+  ARM_ROLES.forEach(role => {
+    const target = armRoles[role];
+    const bone = source[role];
+    if (target && bone) {
+      pairs.push([target, bone]);
+      paired.add(target);
+    }
+  });
+
+  [source.leftUpperArm, source.rightUpperArm].forEach(upperArm => {
+    upperArm?.traverse(node => {
+      if (!(node as THREE.Bone).isBone) return;
+      const target = arms.find(bone => bone.name === node.name);
+      if (target && !paired.has(target)) {
+        pairs.push([target, node as THREE.Bone]);
+        paired.add(target);
+      }
+    });
+  });
+
+  return pairs;
+}
+
+// Copies the character's arm pose onto the arms rig. The rigs should share rest poses, e.g.
+// Mixamo arms on a Mixamo character, as local rotations are copied as they are.
+export function poseArmsRig(pairs: [target: THREE.Bone, source: THREE.Bone][]): void {
+  pairs.forEach(([target, source]) => target.quaternion.copy(source.quaternion));
+}
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { GroundConfig, GroundInfo, GroundParams } from './types';
+
+export const DEFAULT_GROUND_CONFIG: GroundConfig = {
+  probeDistance: 0.2,
+  maxSlopeAngle: Math.PI / 4,
+  slideSpeed: 4,
+  stepHeight: 0.3,
+  stepProbeDistance: 0.15,
+};
+
+// How far inside the capsule the ground probe starts, so it still hits ground the feet sink into
+const PROBE_START = 0.1;
+
+const UP = new THREE.Vector3(0, 1, 0);
+const identityRotation = { x: 0, y: 0, z: 0, w: 1 };
+const down = { x: 0, y: -1, z: 0 };
+const downhill = new THREE.Vector3();
+const intoSlope = new THREE.Vector3();
+
+// The probe ball, made once per Rapier module and resized in place
+let probeBall: InstanceType<GroundParams['rapier']['Ball']> | null = null;
+let probeBallModule: GroundParams['rapier'] | null = null;
+
+function getProbeBall(rapier: GroundParams['rapier'], radius: number): InstanceType<GroundParams['rapier']['Ball']> {
+  if (!probeBall || probeBallModule !== rapier) {
+    probeBall = new rapier.Ball(radius);
+    probeBallModule = rapier;
+  }
+  probeBall.radius = radius;
+  return probeBall;
+}
+
+export function createGroundInfo(): GroundInfo {
+  return {
+    grounded: false,
+    walkable: false,
+    normal: new THREE.Vector3(0, 1, 0),
+    slopeAngle: 0,
+    distance: Infinity,
+    collider: null,
+  };
+}
+
+// Sweeps a ball slightly narrower than the capsule down from the feet. Unlike a single ray this
+// catches edges and gaps, and reports the normal of whatever surface the feet rest on.
+export function detectGround({ rapier, world, controls, radius, feetHeight = 0, config, ground }: GroundParams): GroundInfo {
+  ground.grounded = false;
+  ground.walkable = false;
+  ground.normal.copy(UP);
+  ground.slopeAngle = 0;
+  ground.distance = Infinity;
+  ground.collider = null;
+  if (!controls.current) return ground;
+
+  const body = controls.current.translation();
+  const ballRadius = radius * 0.9;
+  const origin = { x: body.x, y: body.y + feetHeight + ballRadius + PROBE_START, z: body.z };
+
+  const hit = world.castShape(
+    origin,
+    identityRotation,
+    down,
+    getProbeBall(rapier, ballRadius),
+    0,
+    PROBE_START + config.probeDistance,
+    false,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls.current
+  );
+  if (!hit) return ground;
+
+  // normal2 is on the unrotated ball, so it's world-aligned: the ground normal is its opposite
+  ground.normal.set(-hit.normal2.x, -hit.normal2.y, -hit.normal2.z).normalize();
+  ground.slopeAngle = ground.normal.angleTo(UP);
+  ground.distance = hit.time_of_impact - PROBE_START;
+  ground.collider = hit.collider;
+  ground.grounded = true;
+  ground.walkable = ground.slopeAngle <= config.maxSlopeAngle;
+
+  return ground;
+}
+
+// Adapts a desired velocity to the ground: along walkable slopes instead of into or off them,
+// and down steep ones without letting the player push their way up.
+export function applyGroundToVelocity(
+  velocity: THREE.Vector3,
+  ground: GroundInfo,
+  config: GroundConfig
+): THREE.Vector3 {
+  if (!ground.grounded) return velocity;
+
+  if (ground.walkable) {
+    // Project onto the slope plane, keeping the horizontal speed the player asked for
+    const speed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+    velocity.projectOnPlane(ground.normal);
+    const projectedSpeed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+    if (projectedSpeed > 0) velocity.multiplyScalar(speed / projectedSpeed);
+    return velocity;
+  }
+
+  // Too steep: drop the part of the input heading uphill and slide down the fall line
+  intoSlope.set(ground.normal.x, 0, ground.normal.z).normalize();
+  const uphill = velocity.dot(intoSlope);
+  if (uphill < 0) velocity.addScaledVector(intoSlope, -uphill);
+
+  downhill.copy(UP).negate().projectOnPlane(ground.normal).normalize();
+  return velocity.addScaledVector(downhill, config.slideSpeed);
+}
+
+// Lifts the player onto a ledge no higher than stepHeight when walking into it.
+// Returns true if the player was stepped up.
+export function handleStepUp(
+  { world, controls, radius, feetHeight = 0, config, ground }: Omit<GroundParams, 'rapier'>,
+  velocity: THREE.Vector3
+): boolean {
+  if (!controls.current || !ground.grounded || config.stepHeight <= 0) return false;
+
+  const horizontalSpeed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+  if (horizontalSpeed < 0.01) return false;
+  const dx = velocity.x / horizontalSpeed;
+  const dz = velocity.z / horizontalSpeed;
+
+  const body = controls.current.translation();
+  const feet = { x: body.x, y: body.y + feetHeight, z: body.z };
+  const reach = radius + config.stepProbeDistance;
+
+  // Something in the way just above the feet...
+  const low = world.castRayAndGetNormal(
+    new RAPIER.Ray({ x: feet.x, y: feet.y + 0.05, z: feet.z }, { x: dx, y: 0, z: dz }),
+    reach,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls.current
+  );
+  if (!low || low.normal.y > Math.cos(config.maxSlopeAngle)) return false;
+
+  // ...but clear at step height...
+  const high = world.castRay(
+    new RAPIER.Ray({ x: feet.x, y: feet.y + config.stepHeight + 0.05, z: feet.z }, { x: dx, y: 0, z: dz }),
+    reach,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls.current
+  );
+  if (high) return false;
+
+  // ...with a walkable top to stand on
+  const edge = low.timeOfImpact + 0.05;
+  const top = world.castRayAndGetNormal(
+    new RAPIER.Ray({ x: feet.x + dx * edge, y: feet.y + config.stepHeight + 0.05, z: feet.z + dz * edge }, down),
+    config.stepHeight + 0.05,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls.current
+  );
+  if (!top || top.normal.y < Math.cos(config.maxSlopeAngle)) return false;
+
+  const rise = config.stepHeight + 0.05 - top.timeOfImpact;
+  if (rise <= 0.01) return false;
+
+  controls.current.setTranslation({ x: body.x, y: body.y + rise + 0.01, z: body.z }, true);
+  return true;
+}
@@ -0,0 +1,179 @@
+import React from 'react';
+import type { DamageOptions, HealthConfig, HealthParams, HealthState, HealthStore } from './types';
+
+export const DEFAULT_HEALTH_CONFIG: HealthConfig = {
+  maxHealth: 100,
+  armor: 0,
+  maxArmor: 100,
+  armorAbsorption: 0.5,
+  regenRate: 0,
+  regenDelay: 3000,
+  invulnerabilityTime: 0,
+  respawnInvulnerability: 2000,
+  respawnDelay: 3000,
+  autoRespawn: true,
+};
+
+export function createHealthStore(overrides: Partial<HealthConfig> = {}): HealthStore {
+  const config: HealthConfig = { ...DEFAULT_HEALTH_CONFIG, ...overrides };
+  const listeners = new Set<(state: HealthState) => void>();
+
+  let state: HealthState = {
+    health: config.maxHealth,
+    maxHealth: config.maxHealth,
+    armor: Math.min(config.armor, config.maxArmor),
+    maxArmor: config.maxArmor,
+    dead: false,
+    deathTime: 0,
+    lastDamageTime: 0,
+    invulnerableUntil: 0,
+    effects: [],
+    respawnCount: 0,
+  };
+
+  // State is replaced rather than mutated so subscribers can compare snapshots
+  const setState = (partial: Partial<HealthState>) => {
+    state = { ...state, ...partial };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const applyDamage = (amount: number, options: DamageOptions = {}) => {
+    const now = Date.now();
+    if (amount <= 0 || state.dead) return 0;
+    if (!options.ignoreInvulnerability && now < state.invulnerableUntil) return 0;
+
+    // Armor soaks up its share of the damage until it runs out
+    const absorbed = options.ignoreArmor ? 0 : Math.min(amount * config.armorAbsorption, state.armor);
+    const healthLoss = Math.min(amount - absorbed, state.health);
+    const health = state.health - healthLoss;
+    const dead = health <= 0;
+
+    setState({
+      health,
+      armor: state.armor - absorbed,
+      lastDamageTime: now,
+      invulnerableUntil: (options.triggersInvulnerability ?? true) && config.invulnerabilityTime > 0
+        ? now + config.invulnerabilityTime
+        : state.invulnerableUntil,
+      dead,
+      deathTime: dead ? now : state.deathTime,
+      effects: dead ? [] : state.effects,
+    });
+
+    return healthLoss;
+  };
+
+  return {
+    config,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    applyDamage,
+    heal: (amount) => {
+      if (amount <= 0 || state.dead || state.health >= state.maxHealth) return;
+      setState({ health: Math.min(state.health + amount, state.maxHealth) });
+    },
+    addArmor: (amount) => {
+      if (amount <= 0 || state.dead) return;
+      setState({ armor: Math.min(state.armor + amount, state.maxArmor) });
+    },
+    addDamageOverTime: (effect) => {
+      if (state.dead) return;
+      // Re-applying an effect with the same id refreshes it instead of stacking
+      setState({
+        effects: [
+          ...state.effects.filter(e => e.id !== effect.id),
+          { ...effect, startTime: Date.now() },
+        ],
+      });
+    },
+    removeDamageOverTime: (id) => {
+      if (!state.effects.some(e => e.id === id)) return;
+      setState({ effects: state.effects.filter(e => e.id !== id) });
+    },
+    setInvulnerable: (duration) => {
+      setState({ invulnerableUntil: Date.now() + duration });
+    },
+    kill: () => {
+      if (state.dead) return;
+      setState({ health: 0, dead: true, deathTime: Date.now(), effects: [] });
+    },
+    respawn: () => {
+      setState({
+        health: state.maxHealth,
+        armor: Math.min(config.armor, config.maxArmor),
+        dead: false,
+        invulnerableUntil: Date.now() + config.respawnInvulnerability,
+        effects: [],
+        respawnCount: state.respawnCount + 1,
+      });
+    },
+    update: (delta) => {
+      if (state.dead) return;
+      const now = Date.now();
+
+      const activeEffects = state.effects.filter(e => now - e.startTime < e.duration);
+      if (activeEffects.length !== state.effects.length) {
+        setState({ effects: activeEffects });
+      }
+
+      for (const effect of activeEffects) {
+        applyDamage(effect.damagePerSecond * delta, { triggersInvulnerability: false, ...effect.options });
+        if (state.dead) return;
+      }
+
+      if (config.regenRate > 0 && state.health < state.maxHealth && now - state.lastDamageTime >= config.regenDelay) {
+        setState({ health: Math.min(state.health + config.regenRate * delta, state.maxHealth) });
+      }
+    },
+  };
+}
+
+// Subscribes a component to a health store, optionally to a slice of it
+export function useHealth(store: HealthStore): HealthState;
+export function useHealth<T>(store: HealthStore, selector: (state: HealthState) => T): T;
+export function useHealth<T>(store: HealthStore, selector?: (state: HealthState) => T) {
+  const getSnapshot = () => selector ? selector(store.getState()) : store.getState();
+  return React.useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+// Ticks the health store each frame and runs the death/respawn flow
+export function handleHealth({
+  store,
+  delta,
+  controls,
+  spawnPoint,
+  onDeath,
+  onRespawn,
+  wasDead
+}: HealthParams): void {
+  store.update(delta);
+
+  const { dead, deathTime } = store.getState();
+
+  if (dead && !wasDead.current) {
+    wasDead.current = true;
+    onDeath?.();
+  }
+
+  if (dead && store.config.autoRespawn && Date.now() - deathTime >= store.config.respawnDelay) {
+    store.respawn();
+  }
+
+  // Teleport back to the spawn point once the store has been revived
+  if (!store.getState().dead && wasDead.current) {
+    wasDead.current = false;
+
+    if (controls.current) {
+      const [x, y, z] = spawnPoint;
+      controls.current.setTranslation({ x, y, z }, true);
+      controls.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+    }
+
+    onRespawn?.();
+  }
+}
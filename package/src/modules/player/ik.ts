@@ -0,0 +1,293 @@
+import * as THREE from 'three';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { BoneRole, IKConfig, IKParams, IKState } from './types';
+
+export const DEFAULT_IK_CONFIG: IKConfig = {
+  handGrip: true,
+  aimAlignment: true,
+  footPlacement: true,
+  alignFeet: true,
+  aimDistance: 20,
+  maxStepHeight: 0.4,
+  blendSpeed: 8,
+  footSmoothing: 12,
+};
+
+const EPSILON = 1e-4;
+const UP = new THREE.Vector3(0, 1, 0);
+const down = { x: 0, y: -1, z: 0 };
+
+// Bones whose pose IK may change, saved before it runs
+const IK_BONES: BoneRole[] = [
+  'hips',
+  'leftUpperLeg', 'leftLowerLeg', 'leftFoot',
+  'rightUpperLeg', 'rightLowerLeg', 'rightFoot',
+  'leftUpperArm', 'leftLowerArm', 'leftHand',
+  'rightUpperArm', 'rightLowerArm', 'rightHand',
+];
+
+const LEGS = [
+  ['leftUpperLeg', 'leftLowerLeg', 'leftFoot'],
+  ['rightUpperLeg', 'rightLowerLeg', 'rightFoot'],
+] as const;
+
+const a = new THREE.Vector3();
+const b = new THREE.Vector3();
+const c = new THREE.Vector3();
+const t = new THREE.Vector3();
+const ab = new THREE.Vector3();
+const ac = new THREE.Vector3();
+const at = new THREE.Vector3();
+const ba = new THREE.Vector3();
+const bc = new THREE.Vector3();
+const axis = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const boneRotation = new THREE.Quaternion();
+const parentRotation = new THREE.Quaternion();
+const endRotation = new THREE.Quaternion();
+
+const facing = new THREE.Quaternion();
+const kneePole = new THREE.Vector3();
+const elbowPole = new THREE.Vector3();
+const position = new THREE.Vector3();
+const target = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const tilt = new THREE.Quaternion();
+const rightStart = new THREE.Vector3();
+const rightStartRotation = new THREE.Quaternion();
+const leftOffset = new THREE.Vector3();
+const leftRelative = new THREE.Quaternion();
+const pointing = new THREE.Vector3();
+const wanted = new THREE.Vector3();
+
+export function createIKState(): IKState {
+  return {
+    aimWeight: 0,
+    footWeight: 0,
+    footOffsets: [0, 0],
+    footNormals: [new THREE.Vector3(0, 1, 0), new THREE.Vector3(0, 1, 0)],
+    pelvisOffset: 0,
+    pose: new Map(),
+  };
+}
+
+// Gives a bone the world rotation `world` and brings its children along
+function setWorldQuaternion(bone: THREE.Object3D, world: THREE.Quaternion): void {
+  if (bone.parent) bone.parent.getWorldQuaternion(parentRotation).invert();
+  else parentRotation.identity();
+  bone.quaternion.copy(parentRotation).multiply(world);
+  bone.updateMatrixWorld(true);
+}
+
+// Applies a world-space rotation on top of a bone's current one
+function rotateWorld(bone: THREE.Object3D, worldRotation: THREE.Quaternion): void {
+  bone.getWorldQuaternion(boneRotation);
+  setWorldQuaternion(bone, boneRotation.premultiply(worldRotation));
+}
+
+// Analytic two-bone IK: bends the middle joint until the limb spans the distance to the target,
+// then swings the root to face it. The bend stays in the limb's current plane, or goes towards
+// `pole` when the limb is straight, and the end bone keeps its world rotation. `weight` blends
+// from the animated pose to the target.
+export function solveTwoBoneIK(
+  root: THREE.Object3D,
+  mid: THREE.Object3D,
+  end: THREE.Object3D,
+  goal: THREE.Vector3,
+  weight = 1,
+  pole?: THREE.Vector3
+): void {
+  if (weight <= 0) return;
+
+  end.getWorldQuaternion(endRotation);
+  root.getWorldPosition(a);
+  mid.getWorldPosition(b);
+  end.getWorldPosition(c);
+  t.copy(c).lerp(goal, Math.min(weight, 1));
+
+  const upper = ab.subVectors(b, a).length();
+  const lower = bc.subVectors(c, b).length();
+  ac.subVectors(c, a);
+  at.subVectors(t, a);
+  if (upper < EPSILON || lower < EPSILON || ac.lengthSq() < EPSILON * EPSILON || at.lengthSq() < EPSILON * EPSILON) return;
+
+  // Law of cosines for the angles at the root and the middle joint that give this reach
+  const reach = THREE.MathUtils.clamp(at.length(), EPSILON, upper + lower - EPSILON);
+  const rootAngle = ac.angleTo(ab);
+  const midAngle = ba.subVectors(a, b).angleTo(bc);
+  const wantedRootAngle = Math.acos(THREE.MathUtils.clamp((upper * upper + reach * reach - lower * lower) / (2 * upper * reach), -1, 1));
+  const wantedMidAngle = Math.acos(THREE.MathUtils.clamp((upper * upper + lower * lower - reach * reach) / (2 * upper * lower), -1, 1));
+
+  axis.crossVectors(ac, ab);
+  if (axis.lengthSq() < EPSILON * EPSILON && pole) axis.crossVectors(ac, pole);
+  if (axis.lengthSq() >= EPSILON * EPSILON) {
+    axis.normalize();
+    rotateWorld(root, rotation.setFromAxisAngle(axis, wantedRootAngle - rootAngle));
+    rotateWorld(mid, rotation.setFromAxisAngle(axis, wantedMidAngle - midAngle));
+  }
+
+  // Swing the bent limb onto the target
+  end.getWorldPosition(c);
+  rotateWorld(root, rotation.setFromUnitVectors(ac.subVectors(c, a).normalize(), at.normalize()));
+
+  setWorldQuaternion(end, endRotation);
+}
+
+// Puts back the pose IK started from last frame. Run before the mixer so bones without
+// animation tracks don't build up corrections.
+export function restoreIKPose(state: IKState): void {
+  state.pose.forEach((saved, bone) => {
+    bone.position.copy(saved.position);
+    bone.quaternion.copy(saved.quaternion);
+  });
+}
+
+function savePose(state: IKState, bones: IKParams['bones']): void {
+  IK_BONES.forEach(role => {
+    const bone = bones[role];
+    if (!bone) return;
+    const saved = state.pose.get(bone);
+    if (saved) {
+      saved.position.copy(bone.position);
+      saved.quaternion.copy(bone.quaternion);
+    } else {
+      state.pose.set(bone, { position: bone.position.clone(), quaternion: bone.quaternion.clone() });
+    }
+  });
+}
+
+// Height of the ground under a foot relative to the capsule's bottom, within maxStepHeight.
+// Without ground in range the foot stays where the clip puts it.
+function probeFoot(
+   
+  world: any, // RAPIER world - using any to avoid version conflicts
+  controls: IKParams['controls'],
+  foot: THREE.Vector3,
+  feetY: number,
+  maxStepHeight: number,
+  normalOut: THREE.Vector3
+): number {
+  const hit = world.castRayAndGetNormal(
+    new RAPIER.Ray({ x: foot.x, y: feetY + maxStepHeight, z: foot.z }, down),
+    maxStepHeight * 2,
+    true,
+    RAPIER.QueryFilterFlags.EXCLUDE_SENSORS,
+    undefined,
+    undefined,
+    controls.current ?? undefined
+  );
+  if (!hit) {
+    normalOut.copy(UP);
+    return 0;
+  }
+  normalOut.set(hit.normal.x, hit.normal.y, hit.normal.z);
+  return maxStepHeight - hit.timeOfImpact;
+}
+
+// Lowers the pelvis to the lower foot's ground, lifts the other foot onto its own and tilts
+// both to the slope
+function placeFeet({ bones, config, state, delta, feetHeight = 0, world, controls }: IKParams): void {
+  const { hips } = bones;
+  const body = controls.current?.translation();
+  if (!hips || !hips.parent || !body || state.footWeight <= 0) return;
+
+  const follow = 1 - Math.exp(-config.footSmoothing * delta);
+  for (let i = 0; i < LEGS.length; i++) {
+    const foot = bones[LEGS[i][2]];
+    if (!foot) return;
+    foot.getWorldPosition(position);
+    const offset = probeFoot(world, controls, position, body.y + feetHeight, config.maxStepHeight, normal);
+    state.footOffsets[i] += (offset - state.footOffsets[i]) * follow;
+    state.footNormals[i].lerp(normal, follow).normalize();
+  }
+
+  // The pelvis only goes down, so every foot can reach its ground by bending
+  state.pelvisOffset = Math.min(state.footOffsets[0], state.footOffsets[1], 0);
+  hips.getWorldPosition(position);
+  position.y += state.pelvisOffset * state.footWeight;
+  hips.position.copy(hips.parent.worldToLocal(position));
+  hips.updateMatrixWorld(true);
+
+  for (let i = 0; i < LEGS.length; i++) {
+    const [upperRole, lowerRole, footRole] = LEGS[i];
+    const upper = bones[upperRole];
+    const lower = bones[lowerRole];
+    const foot = bones[footRole];
+    if (!upper || !lower || !foot) continue;
+
+    foot.getWorldPosition(target);
+    target.y += (state.footOffsets[i] - state.pelvisOffset) * state.footWeight;
+    solveTwoBoneIK(upper, lower, foot, target, 1, kneePole);
+
+    if (config.alignFeet) {
+      tilt.setFromUnitVectors(UP, state.footNormals[i]);
+      rotateWorld(foot, rotation.identity().slerp(tilt, state.footWeight));
+    }
+  }
+}
+
+// Points the right arm and the weapon at the aim point, then keeps the left hand on the weapon
+function placeHands({ bones, config, state, aimPoint, leftHandGrip }: IKParams): void {
+  const { rightUpperArm, rightLowerArm, rightHand, rightHandIndex, leftUpperArm, leftLowerArm, leftHand } = bones;
+  if (!rightUpperArm || !rightLowerArm || !rightHand) return;
+
+  // Where the clips hold the left hand relative to the right one
+  rightHand.getWorldPosition(rightStart);
+  rightHand.getWorldQuaternion(rightStartRotation);
+  const grip = config.handGrip && leftUpperArm && leftLowerArm && leftHand;
+  if (grip) {
+    rightStartRotation.invert();
+    leftHand.getWorldPosition(leftOffset).sub(rightStart).applyQuaternion(rightStartRotation);
+    leftHand.getWorldQuaternion(leftRelative).premultiply(rightStartRotation);
+  }
+
+  if (state.aimWeight > 0) {
+    // Swing the arm so the hand lies on the line from the shoulder to the aim point
+    rightUpperArm.getWorldPosition(position);
+    const reach = rightStart.distanceTo(position);
+    target.subVectors(aimPoint, position).normalize().multiplyScalar(reach).add(position);
+    solveTwoBoneIK(rightUpperArm, rightLowerArm, rightHand, target, state.aimWeight, elbowPole);
+
+    // Then turn the hand so the weapon, held along the index finger, points at it
+    if (rightHandIndex) {
+      rightHand.getWorldPosition(position);
+      pointing.subVectors(rightHandIndex.getWorldPosition(pointing), position).normalize();
+      wanted.subVectors(aimPoint, position).normalize();
+      tilt.setFromUnitVectors(pointing, wanted);
+      rotateWorld(rightHand, rotation.identity().slerp(tilt, state.aimWeight));
+    }
+  }
+
+  if (!grip || (state.aimWeight <= 0 && !leftHandGrip)) return;
+
+  rightHand.getWorldPosition(position);
+  rightHand.getWorldQuaternion(boneRotation);
+  if (leftHandGrip) target.set(leftHandGrip[0], leftHandGrip[1], leftHandGrip[2]);
+  else target.copy(leftOffset);
+  target.applyQuaternion(boneRotation).add(position);
+  leftRelative.premultiply(boneRotation);
+
+  solveTwoBoneIK(leftUpperArm, leftLowerArm, leftHand, target, 1, elbowPole);
+  setWorldQuaternion(leftHand, leftRelative);
+}
+
+// Runs after the mixer: feet first, as lowering the pelvis moves the arms too, then the hands
+export function handleIK(params: IKParams): void {
+  const { root, bones, config, state, delta, aiming, grounded } = params;
+  const blend = 1 - Math.exp(-config.blendSpeed * delta);
+  state.aimWeight += ((aiming && config.aimAlignment ? 1 : 0) - state.aimWeight) * blend;
+  state.footWeight += ((grounded && config.footPlacement ? 1 : 0) - state.footWeight) * blend;
+  if (state.aimWeight < 1e-3) state.aimWeight = 0;
+  if (state.footWeight < 1e-3) state.footWeight = 0;
+
+  savePose(state, bones);
+  root.updateWorldMatrix(true, true);
+
+  // Knees bend forward, elbows back and down
+  root.getWorldQuaternion(facing);
+  kneePole.set(0, 0, 1).applyQuaternion(facing);
+  elbowPole.set(0, -1, -1).normalize().applyQuaternion(facing);
+
+  placeFeet(params);
+  placeHands(params);
+}
@@ -0,0 +1,268 @@
+import type { InputBinding, InputBindings, InputConfig, InputManager, StickConfig, StickCurve } from './types';
+import { MOUSE_SENSITIVITY } from './constants';
+
+const keyboard = (key: string): InputBinding => ({ device: 'keyboard', key });
+const mouse = (button: number): InputBinding => ({ device: 'mouse', button });
+const gamepad = (button: number): InputBinding => ({ device: 'gamepad', button });
+const gamepadAxis = (axis: number, direction: 1 | -1): InputBinding => ({ device: 'gamepadAxis', axis, direction });
+
+// Keyboard/mouse defaults plus the standard gamepad layout (A jump, X reload, RT fire, LT aim)
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  forward: [keyboard('KeyW'), keyboard('ArrowUp'), gamepadAxis(1, -1)],
+  backward: [keyboard('KeyS'), keyboard('ArrowDown'), gamepadAxis(1, 1)],
+  left: [keyboard('KeyA'), keyboard('ArrowLeft'), gamepadAxis(0, -1)],
+  right: [keyboard('KeyD'), keyboard('ArrowRight'), gamepadAxis(0, 1)],
+  run: [keyboard('Shift'), gamepad(10)],
+  jump: [keyboard('Space'), gamepad(0)],
+  crouch: [keyboard('KeyC'), gamepad(1)],
+  prone: [keyboard('KeyZ'), gamepad(11)],
+  fire: [mouse(0), gamepad(7)],
+  aim: [mouse(2), gamepad(6)],
+  reload: [keyboard('KeyR'), gamepad(2)],
+  switchFireMode: [keyboard('KeyB'), gamepad(3)],
+  swapShoulder: [keyboard('KeyQ'), gamepad(15)],
+  toggleCameraMode: [keyboard('KeyV'), gamepad(12)],
+  nextWeapon: [gamepad(5)],
+  previousWeapon: [gamepad(4)],
+  weapon1: [keyboard('Digit1')],
+  weapon2: [keyboard('Digit2')],
+  weapon3: [keyboard('Digit3')],
+  weapon4: [keyboard('Digit4')],
+  weapon5: [keyboard('Digit5')],
+  weapon6: [keyboard('Digit6')],
+  weapon7: [keyboard('Digit7')],
+  weapon8: [keyboard('Digit8')],
+  weapon9: [keyboard('Digit9')],
+};
+
+export const DEFAULT_INPUT_CONFIG: InputConfig = {
+  bindings: DEFAULT_INPUT_BINDINGS,
+  mouseSensitivity: MOUSE_SENSITIVITY,
+  requirePointerLock: true,
+  moveStick: { axes: [0, 1], deadZone: 0.2, sensitivity: 1, curve: 'linear', invertY: false },
+  lookStick: { axes: [2, 3], deadZone: 0.15, sensitivity: 3, curve: 'quadratic', invertY: false },
+};
+
+function getCurve(curve: StickCurve): (value: number) => number {
+  if (typeof curve === 'function') return curve;
+  if (curve === 'quadratic') return (v) => v * v;
+  if (curve === 'cubic') return (v) => v * v * v;
+  return (v) => v;
+}
+
+// Radial dead-zone with the remaining range rescaled to 0-1, then the response curve
+export function applyStickResponse(x: number, y: number, stick: StickConfig): { x: number; y: number } {
+  const magnitude = Math.sqrt(x * x + y * y);
+  if (magnitude <= stick.deadZone) return { x: 0, y: 0 };
+
+  const scaled = Math.min((magnitude - stick.deadZone) / (1 - stick.deadZone), 1);
+  const response = getCurve(stick.curve)(scaled) / magnitude;
+
+  return { x: x * response, y: y * response * (stick.invertY ? -1 : 1) };
+}
+
+export function getBindingId(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'keyboard': return `key:${binding.key.toLowerCase()}`;
+    case 'mouse': return `mouse:${binding.button}`;
+    case 'gamepad': return `pad:${binding.button}`;
+    case 'gamepadAxis': return `axis:${binding.axis}:${binding.direction}`;
+  }
+}
+
+export function createInputManager(overrides: Partial<InputConfig> = {}): InputManager {
+  const config: InputConfig = { ...DEFAULT_INPUT_CONFIG, ...overrides };
+
+  // Raw device state, keyed by getBindingId
+  const held = new Set<string>();
+  const tapped = new Set<string>(); // Pressed since the last update, so sub-frame taps still register
+  const keyByCode: Record<string, string> = {};
+  const virtual = new Set<string>();
+  const virtualTapped = new Set<string>();
+
+  let current: Record<string, boolean> = {};
+  let previous: Record<string, boolean> = {};
+  let mouseLook = { x: 0, y: 0 };
+  let virtualLook = { x: 0, y: 0 };
+  let virtualMove = { x: 0, y: 0 };
+  let frameLook = { x: 0, y: 0 };
+  let frameMove = { x: 0, y: 0 };
+  let pad: Gamepad | null = null;
+
+  let attachCount = 0;
+  let detachListeners: (() => void) | null = null;
+
+  const press = (id: string) => {
+    held.add(id);
+    tapped.add(id);
+  };
+
+  const isBindingActive = (binding: InputBinding) => {
+    if (binding.device === 'gamepad') {
+      return !!pad?.buttons[binding.button]?.pressed;
+    }
+    if (binding.device === 'gamepadAxis') {
+      const value = pad?.axes[binding.axis] ?? 0;
+      return value * binding.direction > (binding.threshold ?? 0.5);
+    }
+    const id = getBindingId(binding);
+    return held.has(id) || tapped.has(id);
+  };
+
+  const pollGamepad = () => {
+    pad = null;
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    const pads = navigator.getGamepads();
+    if (config.gamepadIndex !== undefined) {
+      pad = pads[config.gamepadIndex] ?? null;
+      return;
+    }
+    for (let i = 0; i < pads.length; i++) {
+      const candidate = pads[i];
+      if (candidate && candidate.connected) {
+        pad = candidate;
+        return;
+      }
+    }
+  };
+
+  const attachListeners = (target: Document | HTMLElement) => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      keyByCode[e.code] = e.key.toLowerCase();
+      press(`key:${e.code.toLowerCase()}`);
+      press(`key:${e.key.toLowerCase()}`);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      // Release the key reported on keydown, which may differ from e.key if modifiers changed
+      held.delete(`key:${e.code.toLowerCase()}`);
+      held.delete(`key:${(keyByCode[e.code] ?? e.key).toLowerCase()}`);
+      delete keyByCode[e.code];
+    };
+
+    const handleMouseDown = (e: MouseEvent) => press(`mouse:${e.button}`);
+    const handleMouseUp = (e: MouseEvent) => {
+      held.delete(`mouse:${e.button}`);
+    };
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (config.requirePointerLock && !document.pointerLockElement) return;
+      mouseLook.x += e.movementX;
+      mouseLook.y += e.movementY;
+    };
+
+    // Losing focus never delivers keyup events, so drop everything held
+    const handleBlur = () => held.clear();
+
+    target.addEventListener('keydown', handleKeyDown as EventListener);
+    target.addEventListener('keyup', handleKeyUp as EventListener);
+    target.addEventListener('mousedown', handleMouseDown as EventListener);
+    target.addEventListener('mouseup', handleMouseUp as EventListener);
+    target.addEventListener('mousemove', handleMouseMove as EventListener);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      target.removeEventListener('keydown', handleKeyDown as EventListener);
+      target.removeEventListener('keyup', handleKeyUp as EventListener);
+      target.removeEventListener('mousedown', handleMouseDown as EventListener);
+      target.removeEventListener('mouseup', handleMouseUp as EventListener);
+      target.removeEventListener('mousemove', handleMouseMove as EventListener);
+      window.removeEventListener('blur', handleBlur);
+    };
+  };
+
+  return {
+    config,
+    setBindings: (bindings) => {
+      config.bindings = bindings;
+    },
+    // Attaching is reference counted so several consumers can share one manager
+    attach: (target = document) => {
+      if (attachCount === 0) detachListeners = attachListeners(target);
+      attachCount++;
+
+      let attached = true;
+      return () => {
+        if (!attached) return;
+        attached = false;
+        attachCount--;
+        if (attachCount === 0 && detachListeners) {
+          detachListeners();
+          detachListeners = null;
+          held.clear();
+        }
+      };
+    },
+    update: (delta) => {
+      pollGamepad();
+
+      previous = current;
+      current = {};
+      Object.keys(config.bindings).forEach(action => {
+        current[action] = (config.bindings[action] ?? []).some(isBindingActive);
+      });
+      virtual.forEach(action => {
+        current[action] = true;
+      });
+      virtualTapped.forEach(action => {
+        current[action] = true;
+      });
+      tapped.clear();
+      virtualTapped.clear();
+
+      // Look: mouse pixels and synthetic radians are per frame, the stick is a rate
+      let stickLook = { x: 0, y: 0 };
+      let stickMove = { x: 0, y: 0 };
+      if (pad) {
+        const [lookX, lookY] = config.lookStick.axes;
+        const [moveX, moveY] = config.moveStick.axes;
+        stickLook = applyStickResponse(pad.axes[lookX] ?? 0, pad.axes[lookY] ?? 0, config.lookStick);
+        stickMove = applyStickResponse(pad.axes[moveX] ?? 0, pad.axes[moveY] ?? 0, config.moveStick);
+      }
+
+      frameLook = {
+        x: mouseLook.x * config.mouseSensitivity + stickLook.x * config.lookStick.sensitivity * delta + virtualLook.x,
+        y: mouseLook.y * config.mouseSensitivity + stickLook.y * config.lookStick.sensitivity * delta + virtualLook.y,
+      };
+      mouseLook = { x: 0, y: 0 };
+      virtualLook = { x: 0, y: 0 };
+
+      // Move: digital actions, the analog stick (y up is forward) and synthetic input, clamped to unit length
+      const x = Number(!!current.right) - Number(!!current.left) + stickMove.x + virtualMove.x;
+      const y = Number(!!current.forward) - Number(!!current.backward) - stickMove.y + virtualMove.y;
+      const length = Math.sqrt(x * x + y * y);
+      frameMove = length > 1 ? { x: x / length, y: y / length } : { x, y };
+    },
+    isDown: (action) => !!current[action],
+    wasPressed: (action) => !!current[action] && !previous[action],
+    wasReleased: (action) => !current[action] && !!previous[action],
+    getLookDelta: () => frameLook,
+    getMoveVector: () => frameMove,
+    press: (action) => {
+      virtual.add(action);
+      virtualTapped.add(action);
+    },
+    release: (action) => {
+      virtual.delete(action);
+    },
+    addLook: (x, y) => {
+      virtualLook.x += x;
+      virtualLook.y += y;
+    },
+    setMove: (x, y) => {
+      virtualMove = { x, y };
+    },
+    reset: () => {
+      held.clear();
+      tapped.clear();
+      virtual.clear();
+      virtualTapped.clear();
+      current = {};
+      previous = {};
+      mouseLook = { x: 0, y: 0 };
+      virtualLook = { x: 0, y: 0 };
+      virtualMove = { x: 0, y: 0 };
+    },
+  };
+}
@@ -1,35 +1,115 @@
-import type { JumpParams } from './types';
+import type { JumpConfig, JumpParams, JumpState } from './types';
+
+export const DEFAULT_JUMP_CONFIG: JumpConfig = {
+  jumpImpulse: 1.8,
+  airControl: 0.3,
+  coyoteTime: 120,
+  jumpBuffer: 150,
+  jumpCutMultiplier: 0.5,
+  maxAirJumps: 0,
+};
+
+// Ground contact this soon after a take-off is the take-off itself, not a landing
+const TAKEOFF_GRACE = 150; // milliseconds
+
+export function createJumpState(): JumpState {
+  return {
+    lastGroundedTime: -Infinity,
+    lastJumpTime: -Infinity,
+    lastJumpPressTime: -Infinity,
+    airJumpsUsed: 0,
+    rising: false,
+  };
+}
+
+// Frame-rate independent blend between the current and desired horizontal velocity in the air
+export function getAirControlBlend(airControl: number, delta: number): number {
+  if (airControl >= 1) return 1;
+  if (airControl <= 0) return 0;
+  return 1 - Math.pow(1 - airControl, delta * 60);
+}
 
 export function handleJump({
   jumpPressed,
+  jumpHeld = jumpPressed,
   isGrounded,
   wait,
   isJumping,
-  actions,
   controls,
-  setAction,
+  animator,
   setIsJumping,
   setWait,
+  onJump,
+  state = createJumpState(),
+  config = DEFAULT_JUMP_CONFIG,
+  verticalVelocity,
   jumpBoostMultiplier = 1.0,
 }: JumpParams & { jumpBoostMultiplier?: number }): void {
-  // Handle jump on single press
-  if (jumpPressed && isGrounded && !wait && !isJumping) {
-    setAction(actions[8]); // Play jump animation
+  const now = Date.now();
+
+  const getVelocity = () => verticalVelocity ? verticalVelocity.get() : controls.current?.linvel().y ?? 0;
+  const setVelocity = (value: number) => {
+    if (verticalVelocity) {
+      verticalVelocity.set(value);
+    } else if (controls.current) {
+      const velocity = controls.current.linvel();
+      controls.current.setLinvel({ x: velocity.x, y: value, z: velocity.z }, true);
+    }
+  };
+
+  const landed = isGrounded && now - state.lastJumpTime > TAKEOFF_GRACE;
+  if (landed) {
+    state.lastGroundedTime = now;
+    state.airJumpsUsed = 0;
+    state.rising = false;
+  }
+
+  if (jumpPressed) state.lastJumpPressTime = now;
+
+  // A press shortly before landing still counts, as does one shortly after walking off a ledge
+  const buffered = now - state.lastJumpPressTime <= config.jumpBuffer;
+  const coyote = now - state.lastGroundedTime <= config.coyoteTime && state.lastGroundedTime > state.lastJumpTime;
+  const groundJump = buffered && (landed || coyote);
+  const airJump = !groundJump && jumpPressed && !landed && !coyote && state.airJumpsUsed < config.maxAirJumps;
+
+  if (groundJump || airJump) {
+    animator?.trigger('jump');
     setIsJumping(true);
     setWait(true);
     
-    const jumpDuration = actions[8].getClip().duration; // Get jump animation duration
+    const jumpDuration = animator?.getDuration('jump') ?? 0;
+
+    // Air jumps start from a standstill vertically so they always gain the same height
+    if (airJump) {
+      state.airJumpsUsed += 1;
+      setVelocity(0);
+    }
 
     if (controls.current) {
       // Base jump impulse increased from 1.3 to 1.8, with zone boost applied
-      const jumpForce = 1.8 * jumpBoostMultiplier;
+      const jumpForce = config.jumpImpulse * jumpBoostMultiplier;
       controls.current.applyImpulse({ x: 0, y: jumpForce, z: 0 }, true);
     }
+
+    state.lastJumpTime = now;
+    state.lastJumpPressTime = -Infinity;
+    state.rising = true;
+
+    onJump?.(airJump);
     
     // Set jump animation duration (adjust based on your animation length)
     setTimeout(() => {
       setIsJumping(false);
     }, jumpDuration * 1000); // Convert to milliseconds
+  } else if (state.rising) {
+    // Letting go early cuts the rise short for a lower jump
+    const velocity = getVelocity();
+    if (velocity <= 0) {
+      state.rising = false;
+    } else if (!jumpHeld) {
+      setVelocity(velocity * config.jumpCutMultiplier);
+      state.rising = false;
+    }
   }
 
   if (isGrounded && wait && !isJumping) {
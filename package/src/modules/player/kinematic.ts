@@ -0,0 +1,173 @@
+import React, { useEffect, useRef } from 'react';
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { CharacterController, KinematicControllerConfig, KinematicMovementParams, KinematicState } from './types';
+import { getMoveVelocity, smoothPlayerPosition } from './physics';
+import { getAirControlBlend } from './jump';
+import { applyLocomotion, getSurfaceTraction } from './locomotion';
+import { MOVE_SPEED, RUN_MULTIPLIER } from './constants';
+
+export const DEFAULT_KINEMATIC_CONFIG: KinematicControllerConfig = {
+  offset: 0.01,
+  maxSlopeClimbAngle: Math.PI / 4,
+  minSlopeSlideAngle: Math.PI / 3,
+  autoStepHeight: 0.3,
+  autoStepMinWidth: 0.2,
+  stepOnDynamicBodies: false,
+  snapToGroundDistance: 0.3,
+  rideMovingPlatforms: true,
+  pushDynamicBodies: true,
+  gravityScale: 1,
+  jumpSpeed: 4.5,
+};
+
+export function createKinematicState(): KinematicState {
+  return {
+    verticalVelocity: 0,
+    horizontalVelocity: { x: 0, z: 0 },
+    grounded: false,
+    traction: 1,
+    platformVelocity: { x: 0, y: 0, z: 0 },
+  };
+}
+
+export function configureCharacterController(
+  controller: CharacterController,
+  config: KinematicControllerConfig
+): void {
+  controller.setOffset(config.offset);
+  controller.setUp({ x: 0, y: 1, z: 0 });
+  controller.setMaxSlopeClimbAngle(config.maxSlopeClimbAngle);
+  controller.setMinSlopeSlideAngle(config.minSlopeSlideAngle);
+  controller.setApplyImpulsesToDynamicBodies(config.pushDynamicBodies);
+
+  if (config.autoStepHeight > 0) {
+    controller.enableAutostep(config.autoStepHeight, config.autoStepMinWidth, config.stepOnDynamicBodies);
+  } else {
+    controller.disableAutostep();
+  }
+
+  if (config.snapToGroundDistance > 0) {
+    controller.enableSnapToGround(config.snapToGroundDistance);
+  } else {
+    controller.disableSnapToGround();
+  }
+}
+
+// Owns a character controller for the world while enabled
+export function useCharacterController(
+   
+  world: any, // RAPIER world - using any to avoid version conflicts
+  enabled: boolean,
+  config: KinematicControllerConfig
+): React.MutableRefObject<CharacterController | null> {
+  const controller = useRef<CharacterController | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // The configured offset is applied below, so config changes don't recreate the controller
+    controller.current = world.createCharacterController(DEFAULT_KINEMATIC_CONFIG.offset);
+    return () => {
+      if (controller.current) world.removeCharacterController(controller.current);
+      controller.current = null;
+    };
+  }, [world, enabled]);
+
+  useEffect(() => {
+    if (controller.current) configureCharacterController(controller.current, config);
+  }, [world, enabled, config]);
+
+  return controller;
+}
+
+// Moves a kinematic body with the character controller: walks up slopes and steps, snaps
+// to the ground, slides off steep slopes, applies gravity and carries the player along with
+// whatever body they stand on.
+export function updateKinematicMovement({
+  controller,
+  collider,
+  state,
+  config,
+  delta,
+  world,
+  controls,
+  smoothedPlayerPosition,
+  locomotion,
+  airControl = 1,
+  ...movement
+}: KinematicMovementParams): void {
+  if (!controls.current || !controller || !collider.current) return;
+
+  const moveVelocity = getMoveVelocity(movement);
+  if (locomotion) {
+    applyLocomotion({
+      velocity: state.horizontalVelocity,
+      target: moveVelocity,
+      maxSpeed: MOVE_SPEED * (movement.speedMultiplier ?? 1) * RUN_MULTIPLIER,
+      grounded: state.grounded,
+      traction: locomotion.useSurfaceFriction ? state.traction : 1,
+      airControl,
+      config: locomotion,
+      delta,
+    });
+  } else {
+    // Full steering on the ground, partial in the air
+    const blend = state.grounded ? 1 : getAirControlBlend(airControl, delta);
+    state.horizontalVelocity.x += (moveVelocity.x - state.horizontalVelocity.x) * blend;
+    state.horizontalVelocity.z += (moveVelocity.z - state.horizontalVelocity.z) * blend;
+  }
+
+  // Gravity builds up in the air, landing resets it
+  if (state.grounded && state.verticalVelocity < 0) state.verticalVelocity = 0;
+  state.verticalVelocity += world.gravity.y * config.gravityScale * delta;
+
+  const platform = config.rideMovingPlatforms ? state.platformVelocity : { x: 0, y: 0, z: 0 };
+  const desired = {
+    x: (state.horizontalVelocity.x + platform.x) * delta,
+    y: (state.verticalVelocity + platform.y) * delta,
+    z: (state.horizontalVelocity.z + platform.z) * delta,
+  };
+
+  controller.computeColliderMovement(collider.current, desired, RAPIER.QueryFilterFlags.EXCLUDE_SENSORS);
+
+  const movementDelta = controller.computedMovement();
+  state.grounded = controller.computedGrounded();
+
+  // Bumping into a ceiling ends the rise
+  if (state.verticalVelocity > 0 && movementDelta.y < desired.y * 0.5) state.verticalVelocity = 0;
+
+  // Remember the traction and the velocity of the non-fixed body underfoot for the next frame
+  const position = controls.current.translation();
+  state.platformVelocity = { x: 0, y: 0, z: 0 };
+  state.traction = 1;
+  if (state.grounded) {
+    const minGroundNormal = Math.cos(config.maxSlopeClimbAngle);
+    for (let i = 0; i < controller.numComputedCollisions(); i++) {
+      const collision = controller.computedCollision(i);
+      if (!collision?.collider || collision.normal1.y < minGroundNormal) continue;
+      state.traction = getSurfaceTraction(collision.collider);
+      const body = collision.collider.parent();
+      if (body && !body.isFixed()) {
+        // Point velocity under the player: linear plus the spin around the body's origin
+        const linvel = body.linvel();
+        const angvel = body.angvel();
+        const origin = body.translation();
+        const r = { x: position.x - origin.x, y: position.y - origin.y, z: position.z - origin.z };
+        state.platformVelocity = {
+          x: linvel.x + angvel.y * r.z - angvel.z * r.y,
+          y: linvel.y + angvel.z * r.x - angvel.x * r.z,
+          z: linvel.z + angvel.x * r.y - angvel.y * r.x,
+        };
+      }
+      break;
+    }
+  }
+
+  controls.current.setNextKinematicTranslation({
+    x: position.x + movementDelta.x,
+    y: position.y + movementDelta.y,
+    z: position.z + movementDelta.z,
+  });
+
+  smoothPlayerPosition(smoothedPlayerPosition, controls.current.translation());
+}
@@ -0,0 +1,67 @@
+import type { RapierCollider } from '@react-three/rapier';
+import type { LocomotionConfig, LocomotionParams } from './types';
+
+export const DEFAULT_LOCOMOTION_CONFIG: LocomotionConfig = {
+  groundAcceleration: 30,
+  groundDeceleration: 40,
+  groundFriction: 6,
+  airAcceleration: 30,
+  airDeceleration: 30,
+  airFriction: 0.5,
+  useSurfaceFriction: true,
+};
+
+// Rapier's default collider friction, which counts as normal traction
+const REFERENCE_FRICTION = 0.5;
+const MAX_TRACTION = 2;
+
+// Traction of a surface relative to an ordinary one, e.g. 0.1 on ice with a friction of 0.05
+export function getSurfaceTraction(collider: RapierCollider | null): number {
+  if (!collider) return 1;
+  return Math.min(Math.max(collider.friction() / REFERENCE_FRICTION, 0), MAX_TRACTION);
+}
+
+// Steers the horizontal velocity towards the input's target at the configured rates. Speed
+// beyond the player's own top speed (knockback, explosions) isn't steered away, it only
+// bleeds off through friction.
+export function applyLocomotion({
+  velocity,
+  target,
+  maxSpeed,
+  grounded,
+  traction,
+  airControl,
+  config,
+  delta
+}: LocomotionParams): void {
+  const acceleration = grounded ? config.groundAcceleration * traction : config.airAcceleration * airControl;
+  const deceleration = grounded ? config.groundDeceleration * traction : config.airDeceleration * airControl;
+  const friction = grounded ? config.groundFriction * traction : config.airFriction;
+
+  // Split off whatever exceeds the player's own top speed and let friction decay it
+  const speed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+  const cap = Math.max(maxSpeed, Math.sqrt(target.x * target.x + target.z * target.z));
+  let excessX = 0;
+  let excessZ = 0;
+  if (speed > cap) {
+    const excess = (speed - cap) * Math.exp(-friction * delta);
+    excessX = velocity.x / speed * excess;
+    excessZ = velocity.z / speed * excess;
+    velocity.x = velocity.x / speed * cap;
+    velocity.z = velocity.z / speed * cap;
+  }
+
+  // Speeding up along the target uses acceleration, slowing down or turning away deceleration
+  const dx = target.x - velocity.x;
+  const dz = target.z - velocity.z;
+  const distance = Math.sqrt(dx * dx + dz * dz);
+  if (distance > 0) {
+    const speedingUp = target.x * dx + target.z * dz > 0;
+    const step = Math.min((speedingUp ? acceleration : deceleration) * delta, distance);
+    velocity.x += dx / distance * step;
+    velocity.z += dz / distance * step;
+  }
+
+  velocity.x += excessX;
+  velocity.z += excessZ;
+}
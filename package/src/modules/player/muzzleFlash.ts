@@ -1,15 +1,15 @@
 import * as THREE from 'three';
 import type { MuzzleFlashParams } from './types';
-import { MUZZLE_FLASH_DURATION, MUZZLE_FLASH_LIGHT_INTENSITY } from './constants';
 
 export function handleMuzzleFlash({
+  muzzleFlash,
   muzzleFlashActive,
   muzzleFlashStartTime,
   muzzleFlashRef,
   muzzleFlashLightRef,
   gunBarrelRef,
   group,
-  bones,
+  anchor,
   pitch,
   yaw,
   camera
@@ -17,16 +17,16 @@ export function handleMuzzleFlash({
   if (muzzleFlashActive.current) {
     const currentTime = Date.now();
     const elapsedTime = currentTime - muzzleFlashStartTime.current;
-    const progress = Math.min(elapsedTime / MUZZLE_FLASH_DURATION, 1);
+    const progress = Math.min(elapsedTime / muzzleFlash.duration, 1);
 
     if (progress < 1) {
       // Calculate gun barrel position (approximate position in front of right hand)
       if (group.current) {
         const handWorldPosition = new THREE.Vector3();
-        bones[3].getWorldPosition(handWorldPosition);
+        (anchor ?? group.current).getWorldPosition(handWorldPosition);
         
         // Offset forward from the hand to simulate gun barrel
-        const gunOffset = new THREE.Vector3(0, 0.2, 1); // Adjust based on your gun model
+        const gunOffset = new THREE.Vector3(...muzzleFlash.offset);
         const mflashQuat = new THREE.Quaternion().setFromEuler(
           new THREE.Euler(pitch, yaw, 0, 'YXZ')
         );
@@ -54,7 +54,7 @@ export function handleMuzzleFlash({
       // Update muzzle flash light
       if (muzzleFlashLightRef.current) {
         muzzleFlashLightRef.current.position.copy(gunBarrelRef.current.clone().add(new THREE.Vector3(0, 0.1, 0.3)));
-        muzzleFlashLightRef.current.intensity = MUZZLE_FLASH_LIGHT_INTENSITY * flashIntensity;
+        muzzleFlashLightRef.current.intensity = muzzleFlash.lightIntensity * flashIntensity;
         muzzleFlashLightRef.current.visible = true;
       }
     } else {
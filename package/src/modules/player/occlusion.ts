@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import type { FadedMesh, OcclusionConfig, OcclusionParams, OcclusionState } from './types';
+
+export const DEFAULT_OCCLUSION_CONFIG: OcclusionConfig = {
+  mode: 'pull-in',
+  opacity: 0.2,
+  fadeDamping: 0.15,
+  sampleHeights: [0, -0.7], // Head and hips
+};
+
+// Close enough to opaque to give a mesh its own materials back
+const RESTORE_THRESHOLD = 0.99;
+
+const raycaster = new THREE.Raycaster();
+const samplePoint = new THREE.Vector3();
+const sampleDirection = new THREE.Vector3();
+const hits: THREE.Intersection[] = [];
+const occluding = new Set<THREE.Mesh>();
+
+export function createOcclusionState(): OcclusionState {
+  return { faded: new Map() };
+}
+
+// Meshes under the ignored object, or under anything with userData.occlusionFade = false,
+// are never faded
+function canFade(mesh: THREE.Mesh, ignore: THREE.Object3D | null | undefined): boolean {
+  for (let node: THREE.Object3D | null = mesh; node; node = node.parent) {
+    if (node === ignore || node.userData.occlusionFade === false) return false;
+  }
+  return mesh.visible;
+}
+
+// Swaps in translucent copies of the mesh's materials, so meshes sharing them stay opaque
+function startFade(mesh: THREE.Mesh): FadedMesh {
+  const original = mesh.material;
+  const materials = (Array.isArray(original) ? original : [original]).map(material => {
+    const copy = material.clone();
+    copy.transparent = true;
+    copy.depthWrite = false;
+    return copy;
+  });
+  mesh.material = Array.isArray(original) ? materials : materials[0];
+
+  return { original, materials, opacities: materials.map(material => material.opacity), fade: 1 };
+}
+
+function endFade(mesh: THREE.Mesh, faded: FadedMesh): void {
+  mesh.material = faded.original;
+  faded.materials.forEach(material => material.dispose());
+}
+
+// Fades out meshes on the lines from the camera to the player and back in once they are
+// clear, in 'fade' mode. Call after the camera has moved.
+export function handleOcclusion({
+  camera,
+  scene,
+  smoothedPlayerPosition,
+  heightOffset = 0,
+  ignore,
+  config,
+  state,
+  active = true
+}: OcclusionParams): void {
+  occluding.clear();
+
+  if (active && config.mode === 'fade') {
+    config.sampleHeights.forEach(height => {
+      samplePoint.copy(smoothedPlayerPosition.current);
+      samplePoint.y += height - heightOffset;
+      sampleDirection.subVectors(samplePoint, camera.position);
+      const distance = sampleDirection.length();
+      if (distance <= 0) return;
+
+      raycaster.set(camera.position, sampleDirection.divideScalar(distance));
+      raycaster.far = distance;
+      hits.length = 0;
+      raycaster.intersectObject(scene, true, hits);
+
+      hits.forEach(({ object }) => {
+        const mesh = object as THREE.Mesh;
+        if (mesh.isMesh && !occluding.has(mesh) && canFade(mesh, ignore)) occluding.add(mesh);
+      });
+    });
+  }
+
+  occluding.forEach(mesh => {
+    if (!state.faded.has(mesh)) state.faded.set(mesh, startFade(mesh));
+  });
+
+  state.faded.forEach((faded, mesh) => {
+    const target = occluding.has(mesh) ? config.opacity : 1;
+    faded.fade += (target - faded.fade) * config.fadeDamping;
+
+    if (target === 1 && faded.fade >= RESTORE_THRESHOLD) {
+      endFade(mesh, faded);
+      state.faded.delete(mesh);
+      return;
+    }
+
+    faded.materials.forEach((material, i) => {
+      material.opacity = faded.opacities[i] * faded.fade;
+    });
+  });
+}
+
+// Gives every faded mesh its own materials back, e.g. when the player unmounts
+export function restoreOccluders(state: OcclusionState): void {
+  state.faded.forEach((faded, mesh) => endFade(mesh, faded));
+  state.faded.clear();
+}
@@ -1,47 +1,133 @@
 import * as THREE from 'three';
 import type { MovementPhysicsParams } from './types';
 import { MOVE_SPEED, RUN_MULTIPLIER } from './constants';
+import { applyGroundToVelocity } from './ground';
+import { getAirControlBlend } from './jump';
+import { applyLocomotion, getSurfaceTraction } from './locomotion';
 
 const directionVector = new THREE.Vector3();
 
-export function updateMovementPhysics({
+// Horizontal velocity for the held directions relative to the player's facing
+export function getMoveVelocity({
   forward,
   backward,
   left,
   right,
   run,
-  playerYRotation,
-  controls,
-  smoothedPlayerPosition
-}: MovementPhysicsParams): void {
-  if (!controls.current) return;
-
+  speedMultiplier = 1,
+  playerYRotation
+}: Pick<MovementPhysicsParams, 'forward' | 'backward' | 'left' | 'right' | 'run' | 'speedMultiplier' | 'playerYRotation'>): THREE.Vector3 {
   // Calculate player's forward direction for movement
   const playerForward = new THREE.Vector3(0, 0, -1).applyQuaternion(playerYRotation);
   const playerRight = new THREE.Vector3().crossVectors(playerForward, new THREE.Vector3(0, 1, 0));
 
   // Movement calculation based on player's orientation
-  const moveForward = -(Number(forward) - Number(backward)) * MOVE_SPEED * (run ? RUN_MULTIPLIER : 1);
-  const moveRight = -(Number(right) - Number(left)) * MOVE_SPEED * (run ? RUN_MULTIPLIER : 1);
+  const speed = MOVE_SPEED * speedMultiplier * (run ? RUN_MULTIPLIER : 1);
+  const moveForward = -(Number(forward) - Number(backward)) * speed;
+  const moveRight = -(Number(right) - Number(left)) * speed;
 
-  directionVector
+  return directionVector
     .copy(playerForward)
     .multiplyScalar(moveForward)
     .add(playerRight.multiplyScalar(moveRight));
+}
 
-  const velocity = controls.current.linvel();
-  controls.current.setLinvel({
-    x: directionVector.x,
-    y: velocity.y,
-    z: directionVector.z,
-  }, true);
+const localForward = new THREE.Vector3();
+const localRight = new THREE.Vector3();
+const UP = new THREE.Vector3(0, 1, 0);
+
+// Horizontal velocity relative to the player's facing in multiples of unitSpeed, x right and
+// y forward, using the same axes as getMoveVelocity
+export function getLocalVelocity(
+  velocity: { x: number; z: number },
+  playerYRotation: THREE.Quaternion,
+  unitSpeed: number
+): { x: number; y: number } {
+  localForward.set(0, 0, -1).applyQuaternion(playerYRotation);
+  localRight.crossVectors(localForward, UP);
+
+  return {
+    x: -(velocity.x * localRight.x + velocity.z * localRight.z) / unitSpeed,
+    y: -(velocity.x * localForward.x + velocity.z * localForward.z) / unitSpeed,
+  };
+}
 
-  // Smooth the player position used for camera calculations
+// Smooth the player position used for camera calculations
+export function smoothPlayerPosition(
+  smoothedPlayerPosition: React.MutableRefObject<THREE.Vector3>,
+  translation: { x: number; y: number; z: number }
+): void {
   const currentPlayerPos = new THREE.Vector3(
-    controls.current.translation().x,
-    controls.current.translation().y + 1.55,
-    controls.current.translation().z
+    translation.x,
+    translation.y + 1.55,
+    translation.z
   );
 
   smoothedPlayerPosition.current.lerp(currentPlayerPos, 0.15);
 }
+
+export function updateMovementPhysics({
+  controls,
+  smoothedPlayerPosition,
+  ground,
+  groundConfig,
+  jumping = false,
+  locomotion,
+  airborne = false,
+  airControl = 1,
+  delta = 0,
+  ...movement
+}: MovementPhysicsParams): void {
+  if (!controls.current) return;
+
+  const moveVelocity = getMoveVelocity(movement);
+  const velocity = controls.current.linvel();
+  let verticalVelocity = velocity.y;
+  const onGround = !!(ground?.grounded && groundConfig && !jumping);
+
+  if (onGround) applyGroundToVelocity(moveVelocity, ground!, groundConfig!);
+
+  if (locomotion) {
+    // Accelerate from the current velocity towards the target instead of snapping to it
+    const steered = { x: velocity.x, z: velocity.z };
+    applyLocomotion({
+      velocity: steered,
+      target: moveVelocity,
+      maxSpeed: MOVE_SPEED * (movement.speedMultiplier ?? 1) * RUN_MULTIPLIER,
+      grounded: !airborne,
+      traction: locomotion.useSurfaceFriction && ground?.grounded ? getSurfaceTraction(ground.collider) : 1,
+      airControl,
+      config: locomotion,
+      delta,
+    });
+    moveVelocity.x = steered.x;
+    moveVelocity.z = steered.z;
+
+    // Follow the slope with the steered velocity rather than the target one
+    if (onGround && ground!.walkable) {
+      moveVelocity.y = -(ground!.normal.x * steered.x + ground!.normal.z * steered.z) / ground!.normal.y;
+    }
+  } else if (airborne) {
+    // In the air only part of the steering applies, the rest is momentum
+    const blend = getAirControlBlend(airControl, delta);
+    moveVelocity.x = velocity.x + (moveVelocity.x - velocity.x) * blend;
+    moveVelocity.z = velocity.z + (moveVelocity.z - velocity.z) * blend;
+  }
+
+  if (onGround) {
+    const { walkable, distance } = ground!;
+
+    // Climb with the slope only while touching it, otherwise never slow down a fall
+    verticalVelocity = moveVelocity.y > 0 && walkable && distance < 0.05
+      ? moveVelocity.y
+      : Math.min(velocity.y, moveVelocity.y);
+  }
+
+  controls.current.setLinvel({
+    x: moveVelocity.x,
+    y: verticalVelocity,
+    z: moveVelocity.z,
+  }, true);
+
+  smoothPlayerPosition(smoothedPlayerPosition, controls.current.translation());
+}
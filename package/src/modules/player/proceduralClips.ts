@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import { AIM_PITCH_DOWN, AIM_PITCH_UP } from './constants';
+import type { BoneResolution } from './types';
+
+// The spine takes most of the look pitch, the camera covers the rest
+const SPINE_AIM_AXIS = new THREE.Vector3(1, 0, -0.5).normalize();
+const SPINE_AIM_SHARE = 0.7;
+
+// Hand roll per unit of recoil intensity
+const RECOIL_HAND_ROLL = 0.05;
+
+// Generated death: the hips tip onto the back and sink to lying height
+const DEATH_FALL_TIME = 0.8; // s
+const DEATH_HIPS_HEIGHT = 0.15; // Share of the standing hips height
+// Generated reload: the chest bows to lower the weapon, holds, and straightens. One second
+// long, as the player stretches it to the weapon's reload time.
+const RELOAD_BOW = 0.35; // radians
+// Generated stances: crouching folds the legs under the lowered hips, prone tips the body
+// face down with the head raised to look ahead
+// Deep enough, with the lean, to keep the head under the default crouch collider
+const CROUCH_HIPS_HEIGHT = 0.5; // Share of the standing hips height
+const CROUCH_LEAN = 0.45; // radians, forward over the knees
+const PRONE_HIPS_HEIGHT = 0.15;
+const PRONE_CHEST_LIFT = 0.4; // radians
+const PRONE_NECK_LIFT = 0.8; // radians
+
+// Standing clips the stance clips are made from
+const CROUCH_SOURCES: Record<string, string> = {
+  crouchIdle: 'idle',
+  crouchWalkForward: 'walkForward',
+  crouchWalkBackward: 'walkBackward',
+  crouchStrafeLeft: 'strafeLeft',
+  crouchStrafeRight: 'strafeRight',
+};
+const PRONE_SOURCES: Record<string, string> = {
+  proneIdle: 'idle',
+  proneCrawl: 'walkForward',
+};
+
+const LATERAL_AXIS = new THREE.Vector3(1, 0, 0);
+const parentRotation = new THREE.Quaternion();
+const tilt = new THREE.Quaternion();
+const key = new THREE.Quaternion();
+
+// A one-key clip holding rotations relative to whatever the layers below animate, for
+// additive layers
+export function createAdditivePose(
+  name: string,
+  rotations: { bone: string; axis: THREE.Vector3; angle: number }[]
+): THREE.AnimationClip {
+  const tracks = rotations.map(({ bone, axis, angle }) => {
+    const rotation = new THREE.Quaternion().setFromAxisAngle(axis, angle);
+    return new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, [0], rotation.toArray());
+  });
+  return new THREE.AnimationClip(name, 1, tracks, THREE.AdditiveAnimationBlendMode);
+}
+
+// Spine poses at the pitch limits and level, blended by look pitch in the aimOffset layer
+export function createAimOffsetClips(spineBone: string): Record<string, THREE.AnimationClip> {
+  const pose = (name: string, pitch: number) =>
+    createAdditivePose(name, [{ bone: spineBone, axis: SPINE_AIM_AXIS, angle: pitch * SPINE_AIM_SHARE }]);
+
+  return {
+    aimUp: pose('aimUp', AIM_PITCH_UP),
+    aimNeutral: pose('aimNeutral', 0),
+    aimDown: pose('aimDown', AIM_PITCH_DOWN),
+  };
+}
+
+// Hands rolling apart, weighted by recoil intensity in the recoil layer
+export function createRecoilClip(leftHandBone: string, rightHandBone: string): THREE.AnimationClip {
+  const roll = new THREE.Vector3(0, 0, 1);
+  return createAdditivePose('recoil', [
+    { bone: leftHandBone, axis: roll, angle: RECOIL_HAND_ROLL },
+    { bone: rightHandBone, axis: roll, angle: -RECOIL_HAND_ROLL },
+  ]);
+}
+
+// The first frame of a clip as a still pose, one key per track at time 0
+function getFirstFrame(clip: THREE.AnimationClip): THREE.KeyframeTrack[] {
+  return clip.tracks.map(track => {
+    const still = track.clone();
+    still.times = still.times.slice(0, 1);
+    still.times[0] = 0;
+    still.values = still.values.slice(0, track.getValueSize());
+    return still;
+  });
+}
+
+function findPoseTrack(pose: THREE.KeyframeTrack[], bone: THREE.Bone, property: string): THREE.KeyframeTrack | undefined {
+  return pose.find(t => {
+    const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(t.name);
+    return propertyName === property && (nodeName === bone.name || nodeName === THREE.PropertyBinding.sanitizeNodeName(bone.name));
+  });
+}
+
+// A bone's rotation in the still pose, or its current one without a track for it
+function getPoseRotation(pose: THREE.KeyframeTrack[], bone: THREE.Bone): THREE.Quaternion {
+  const track = findPoseTrack(pose, bone, 'quaternion');
+  return track ? new THREE.Quaternion().fromArray(track.values) : bone.quaternion.clone();
+}
+
+// Replaces a bone property's track in the pose
+function setPoseTrack(pose: THREE.KeyframeTrack[], track: THREE.KeyframeTrack): void {
+  const index = pose.findIndex(t => t.name === track.name);
+  if (index >= 0) pose[index] = track;
+  else pose.push(track);
+}
+
+// An armature-space axis in the bone's parent space, through the parent chain's rotations in the pose
+function toParentSpace(pose: THREE.KeyframeTrack[], bone: THREE.Bone, axis: THREE.Vector3): THREE.Vector3 {
+  parentRotation.identity();
+  for (let node = bone.parent; node && (node as THREE.Bone).isBone; node = node.parent) {
+    parentRotation.premultiply(getPoseRotation(pose, node as THREE.Bone));
+  }
+  return axis.clone().applyQuaternion(parentRotation.invert());
+}
+
+// Keys rotating a bone about an armature-space axis, by angle × progress at each time
+function createTiltTrack(
+  pose: THREE.KeyframeTrack[],
+  bone: THREE.Bone,
+  axis: THREE.Vector3,
+  angle: number,
+  times: number[],
+  progress: number[]
+): THREE.QuaternionKeyframeTrack {
+  const start = getPoseRotation(pose, bone);
+  const localAxis = toParentSpace(pose, bone, axis);
+
+  const values: number[] = [];
+  progress.forEach((amount, i) => {
+    tilt.setFromAxisAngle(localAxis, angle * amount);
+    tilt.multiply(start).toArray(values, i * 4);
+  });
+  return new THREE.QuaternionKeyframeTrack(`${bone.name}.quaternion`, times, values);
+}
+
+// Falls onto the back from the idle clip's first pose, for characters without a death clip.
+// The death state holds the last frame.
+export function createDeathClip(idle: THREE.AnimationClip, hips: THREE.Bone): THREE.AnimationClip {
+  const pose = getFirstFrame(idle);
+  const times = [0, DEATH_FALL_TIME * 0.6, DEATH_FALL_TIME];
+  const progress = [0, 0.35, 1]; // Speeding up as it falls
+
+  const hipsTrack = findPoseTrack(pose, hips, 'position');
+  const standing = hipsTrack ? new THREE.Vector3().fromArray(hipsTrack.values) : hips.position.clone();
+  const positions: number[] = [];
+  progress.forEach((amount, i) => {
+    standing.clone().setY(standing.y * (1 - (1 - DEATH_HIPS_HEIGHT) * amount)).toArray(positions, i * 3);
+  });
+
+  setPoseTrack(pose, createTiltTrack(pose, hips, LATERAL_AXIS, -Math.PI / 2, times, progress));
+  setPoseTrack(pose, new THREE.VectorKeyframeTrack(`${hips.name}.position`, times, positions));
+  return new THREE.AnimationClip('death', DEATH_FALL_TIME, pose);
+}
+
+// Lowers the weapon by bowing the chest over the idle clip's first pose, for characters
+// without a reload clip
+export function createReloadClip(idle: THREE.AnimationClip, chest: THREE.Bone): THREE.AnimationClip {
+  const pose = getFirstFrame(idle);
+  setPoseTrack(pose, createTiltTrack(pose, chest, LATERAL_AXIS, RELOAD_BOW, [0, 0.25, 0.75, 1], [0, 1, 1, 0]));
+  return new THREE.AnimationClip('reload', 1, pose);
+}
+
+// Rotates every key of a bone's rotation track about an armature-space axis, taken in the
+// clip's first pose
+function tiltTrack(tracks: THREE.KeyframeTrack[], pose: THREE.KeyframeTrack[], bone: THREE.Bone | undefined, angle: number): void {
+  if (!bone) return;
+  const track = findPoseTrack(tracks, bone, 'quaternion')?.clone() ?? createTiltTrack(pose, bone, LATERAL_AXIS, 0, [0], [0]);
+  tilt.setFromAxisAngle(toParentSpace(pose, bone, LATERAL_AXIS), angle);
+  for (let i = 0; i < track.values.length; i += 4) {
+    key.fromArray(track.values, i).premultiply(tilt).toArray(track.values, i);
+  }
+  setPoseTrack(tracks, track);
+}
+
+// Scales the height of every key of the hips' position track
+function lowerHips(tracks: THREE.KeyframeTrack[], hips: THREE.Bone, share: number): void {
+  const track = findPoseTrack(tracks, hips, 'position')?.clone()
+    ?? new THREE.VectorKeyframeTrack(`${hips.name}.position`, [0], hips.position.toArray());
+  for (let i = 1; i < track.values.length; i += 3) {
+    track.values[i] *= share;
+  }
+  setPoseTrack(tracks, track);
+}
+
+// Folds the legs of a standing clip under hips lowered to crouching height, keeping the
+// feet flat and below the hips, and leans the body forward over the knees
+export function createCrouchClip(standing: THREE.AnimationClip, bones: BoneResolution['bones'], name: string): THREE.AnimationClip {
+  const { hips, spine, leftUpperLeg, leftLowerLeg, leftFoot, rightUpperLeg, rightLowerLeg, rightFoot } = bones;
+  const tracks = standing.tracks.slice();
+  const pose = getFirstFrame(standing);
+  // Equal thigh and shin at the same angle either side of vertical lower the hips by its cosine
+  const fold = Math.acos(CROUCH_HIPS_HEIGHT);
+
+  if (hips) lowerHips(tracks, hips, CROUCH_HIPS_HEIGHT);
+  tiltTrack(tracks, pose, spine, CROUCH_LEAN);
+  [[leftUpperLeg, leftLowerLeg, leftFoot], [rightUpperLeg, rightLowerLeg, rightFoot]].forEach(([upper, lower, foot]) => {
+    tiltTrack(tracks, pose, upper, -fold);
+    tiltTrack(tracks, pose, lower, 2 * fold);
+    tiltTrack(tracks, pose, foot, -fold);
+  });
+  return new THREE.AnimationClip(name, standing.duration, tracks);
+}
+
+// Tips a standing clip face down onto the ground, raising the chest and head to look ahead
+export function createProneClip(standing: THREE.AnimationClip, bones: BoneResolution['bones'], name: string): THREE.AnimationClip {
+  const { hips, chest, neck } = bones;
+  const tracks = standing.tracks.slice();
+  const pose = getFirstFrame(standing);
+
+  if (hips) lowerHips(tracks, hips, PRONE_HIPS_HEIGHT);
+  tiltTrack(tracks, pose, hips, Math.PI / 2);
+  tiltTrack(tracks, pose, chest, -PRONE_CHEST_LIFT);
+  tiltTrack(tracks, pose, neck, -PRONE_NECK_LIFT);
+  return new THREE.AnimationClip(name, standing.duration, tracks);
+}
+
+// Crouch and prone clips made from the standing ones, for characters without their own
+export function createStanceClips(
+  clips: Record<string, THREE.AnimationClip>,
+  bones: BoneResolution['bones']
+): Record<string, THREE.AnimationClip> {
+  const stanceClips: Record<string, THREE.AnimationClip> = {};
+  if (!bones.hips) return stanceClips;
+
+  Object.keys(CROUCH_SOURCES).forEach(name => {
+    const standing = clips[CROUCH_SOURCES[name]];
+    if (standing) stanceClips[name] = createCrouchClip(standing, bones, name);
+  });
+  Object.keys(PRONE_SOURCES).forEach(name => {
+    const standing = clips[PRONE_SOURCES[name]];
+    if (standing) stanceClips[name] = createProneClip(standing, bones, name);
+  });
+  return stanceClips;
+}
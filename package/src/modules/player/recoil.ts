@@ -1,35 +1,23 @@
 import type { RecoilParams } from './types';
-import { RECOIL_DURATION, RECOIL_STRENGTH } from './constants';
+import { defaultRecoilCurve } from './weapons';
 
+// Advances the recoil curve and returns its intensity, which drives the additive recoil
+// animation layer rather than writing to the hand bones
 export function handleRecoil({
+  recoil,
   recoilActive,
-  recoilStartTime,
-  leftHandBone,
-  rightHandBone,
-  leftHandOriginalRotation,
-  rightHandOriginalRotation
-}: RecoilParams): void {
-  if (recoilActive.current && leftHandBone.current && rightHandBone.current) {
-    const currentTime = Date.now();
-    const elapsedTime = currentTime - recoilStartTime.current;
-    const progress = Math.min(elapsedTime / RECOIL_DURATION, 1);
+  recoilStartTime
+}: RecoilParams): number {
+  if (!recoilActive.current) return 0;
 
-    if (progress < 1) {
-      // Apply recoil with easing (quick up, slow down)
-      const recoilIntensity = Math.sin(progress * Math.PI) * RECOIL_STRENGTH;
-      
-      // Apply the recoil rotation
-      leftHandBone.current.rotation.copy(leftHandOriginalRotation.current);
-      rightHandBone.current.rotation.copy(rightHandOriginalRotation.current);
-      
-      // Optional: Add slight side-to-side motion for more realism
-      leftHandBone.current.rotation.z += recoilIntensity * 0.05;
-      rightHandBone.current.rotation.z -= recoilIntensity * 0.05;
-    } else {
-      // Reset to original positions
-      leftHandBone.current.rotation.copy(leftHandOriginalRotation.current);
-      rightHandBone.current.rotation.copy(rightHandOriginalRotation.current);
-      recoilActive.current = false;
-    }
+  const elapsedTime = Date.now() - recoilStartTime.current;
+  const progress = Math.min(elapsedTime / recoil.duration, 1);
+
+  if (progress >= 1) {
+    recoilActive.current = false;
+    return 0;
   }
+
+  // Apply recoil with easing (quick up, slow down)
+  return (recoil.curve ?? defaultRecoilCurve)(progress) * recoil.strength;
 }
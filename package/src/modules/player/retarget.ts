@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { DEFAULT_BONE_MAP, findRig, resolveBones } from './bones';
+import type { BoneMap, BoneRole } from './types';
+
+const sourceParent = new THREE.Quaternion();
+const targetParent = new THREE.Quaternion();
+const sourceRest = new THREE.Quaternion();
+const targetRest = new THREE.Quaternion();
+const pre = new THREE.Quaternion();
+const post = new THREE.Quaternion();
+const key = new THREE.Quaternion();
+const offset = new THREE.Vector3();
+
+// Rotation of a node relative to the top of its bone hierarchy, so two rigs are compared in
+// armature space whatever the nodes above their skeletons do
+function getArmatureRotation(node: THREE.Object3D | null, out: THREE.Quaternion): THREE.Quaternion {
+  out.identity();
+  for (let current = node; current && (current as THREE.Bone).isBone; current = current.parent) {
+    out.premultiply(current.quaternion);
+  }
+  return out;
+}
+
+function findBoneByName(bones: THREE.Bone[], name: string): THREE.Bone | undefined {
+  return bones.find(bone => bone.name === name || THREE.PropertyBinding.sanitizeNodeName(bone.name) === name);
+}
+
+// Each bone takes the same armature-space rotation away from its rest pose as its counterpart
+// in the source rig: target = parentRest⁻¹ · sourceParentRest · source · sourceRest⁻¹ · targetRest.
+// Bones are paired by role through the two bone maps, then by name. The hips keep their
+// translation scaled by the rigs' rest hip offsets; other translations and scales are
+// dropped as they only fit the source's proportions.
+export function retargetClip(
+  clip: THREE.AnimationClip,
+  source: THREE.Object3D,
+  target: THREE.Object3D,
+  sourceMap: BoneMap = DEFAULT_BONE_MAP,
+  targetMap: BoneMap = DEFAULT_BONE_MAP
+): THREE.AnimationClip {
+  const sourceBones = findRig(source).bones;
+  const targetBones = findRig(target).bones;
+  const sourceRoles = resolveBones(sourceBones, sourceMap).bones;
+  const targetRoles = resolveBones(targetBones, targetMap).bones;
+
+  const roleOf = new Map<THREE.Bone, BoneRole>();
+  (Object.keys(sourceRoles) as BoneRole[]).forEach(role => {
+    const bone = sourceRoles[role];
+    if (bone) roleOf.set(bone, role);
+  });
+
+  const tracks: THREE.KeyframeTrack[] = [];
+  clip.tracks.forEach(track => {
+    const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(track.name);
+    const sourceBone = findBoneByName(sourceBones, nodeName);
+    if (!sourceBone) return;
+
+    const role = roleOf.get(sourceBone);
+    const targetBone = role ? targetRoles[role] : findBoneByName(targetBones, sourceBone.name);
+    if (!targetBone) return;
+
+    getArmatureRotation(sourceBone.parent, sourceParent);
+    getArmatureRotation(targetBone.parent, targetParent);
+    // Rotates source parent space into target parent space
+    pre.copy(targetParent).invert().multiply(sourceParent);
+
+    if (propertyName === 'quaternion') {
+      getArmatureRotation(sourceBone, sourceRest);
+      getArmatureRotation(targetBone, targetRest);
+      post.copy(sourceRest).invert().multiply(targetRest);
+
+      const values: number[] = [];
+      for (let i = 0; i < track.values.length; i += 4) {
+        key.fromArray(track.values, i).premultiply(pre).multiply(post).toArray(values, i);
+      }
+      tracks.push(new THREE.QuaternionKeyframeTrack(`${targetBone.name}.quaternion`, track.times.slice(), values, track.getInterpolation()));
+      return;
+    }
+
+    if (propertyName === 'position' && role === 'hips') {
+      const sourceLength = sourceBone.position.length();
+      const scale = sourceLength > 1e-6 ? targetBone.position.length() / sourceLength : 1;
+
+      const values: number[] = [];
+      for (let i = 0; i < track.values.length; i += 3) {
+        offset.fromArray(track.values, i).sub(sourceBone.position).multiplyScalar(scale).applyQuaternion(pre);
+        offset.add(targetBone.position).toArray(values, i);
+      }
+      tracks.push(new THREE.VectorKeyframeTrack(`${targetBone.name}.position`, track.times.slice(), values, track.getInterpolation()));
+    }
+  });
+
+  return new THREE.AnimationClip(clip.name, clip.duration, tracks, clip.blendMode);
+}
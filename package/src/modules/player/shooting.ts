@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import RAPIER from '@dimforge/rapier3d-compat';
 import type { RapierRigidBody } from '@react-three/rapier';
+import type { HitEvent, HitTargetUserData, WeaponDefinition } from './types';
 
 export interface ShootingParams {
    
@@ -8,8 +9,44 @@ export interface ShootingParams {
   camera: THREE.Camera;
   controls: React.RefObject<RapierRigidBody | null>;
   dotRef: React.RefObject<THREE.Mesh | null>;
-  shoot: React.RefObject<boolean>;
+  shoot: React.MutableRefObject<number>; // Shots queued since the last call
   shootRayDirection: React.RefObject<THREE.Vector3>;
+  weapon: WeaponDefinition;
+  team?: string;
+  onHit?: (hit: HitEvent) => void;
+}
+
+// Applies the userData damage convention to a hit body and reports the outcome
+function resolveDamage(
+  userData: HitTargetUserData | undefined,
+  weapon: WeaponDefinition,
+  team: string | undefined
+): Pick<HitEvent, 'damage' | 'friendly' | 'killed'> {
+  const friendly = team !== undefined && userData?.team === team;
+  if (!userData || typeof userData.health !== 'number' || friendly) {
+    return { damage: 0, friendly, killed: false };
+  }
+
+  const damage = (weapon.damage ?? 0) * (userData.damageMultiplier ?? 1);
+  const previousHealth = userData.health;
+  userData.health = Math.max(previousHealth - damage, 0);
+
+  return { damage, friendly, killed: previousHealth > 0 && userData.health === 0 };
+}
+
+// Randomly deflects a direction within a cone of the given half-angle
+function applySpread(direction: THREE.Vector3, spread: number): THREE.Vector3 {
+  if (spread <= 0) return direction;
+
+  const tangent = new THREE.Vector3(0, 1, 0).cross(direction);
+  if (tangent.lengthSq() < 1e-6) tangent.set(1, 0, 0);
+  tangent.normalize();
+
+  const angle = Math.random() * spread;
+  const roll = Math.random() * Math.PI * 2;
+  tangent.applyAxisAngle(direction, roll);
+
+  return direction.applyAxisAngle(tangent, angle).normalize();
 }
 
 export function handleShooting({
@@ -18,51 +55,89 @@ export function handleShooting({
   controls,
   dotRef,
   shoot,
-  shootRayDirection
+  shootRayDirection,
+  weapon,
+  team,
+  onHit
 }: ShootingParams): void {
   // Update shoot ray direction
   const newDirection = camera.getWorldDirection(new THREE.Vector3());
   shootRayDirection.current!.copy(newDirection);
 
   const rayOrigin = new THREE.Vector3().copy(camera.position);
+  const playerHandle = controls.current?.handle;
 
-  const shootRay = world.castRay(
-    new RAPIER.Ray(rayOrigin, shootRayDirection.current!), 
-    100, 
-    true
+  // Update the aim dot along the centre of the crosshair
+  const aimRay = world.castRay(
+    new RAPIER.Ray(rayOrigin, shootRayDirection.current!),
+    weapon.range,
+    true,
+    undefined,
+    undefined,
+    undefined,
+    controls.current ?? undefined // A first-person camera starts inside the player's body
   );
 
-  // Update dot position and check for hits
-  if (shootRay && shootRay.collider) {
-    const hitRigidBody = shootRay.collider.parent();
-    
+  if (aimRay && aimRay.collider && dotRef.current) {
+    const hitRigidBody = aimRay.collider.parent();
+
     // Check if we didn't hit ourselves by comparing handles
-    if (hitRigidBody && hitRigidBody.isValid()) {
-      const playerHandle = controls.current?.handle;
-      const hitHandle = hitRigidBody.handle;
-      
-      if (playerHandle !== undefined && hitHandle !== playerHandle) {
-        const impulseStrength = 0.025;
-        const impulsePoint = new THREE.Vector3()
-          .copy(rayOrigin)
-          .add(shootRayDirection.current!.multiplyScalar(shootRay.timeOfImpact));
-
-        if (dotRef.current) {
-          dotRef.current.position.copy(impulsePoint);
-        }
-       
-        if (shoot.current) {
-          hitRigidBody.applyImpulseAtPoint(
-            {
-              x: shootRayDirection.current!.x * impulseStrength,
-              y: shootRayDirection.current!.y * impulseStrength,
-              z: shootRayDirection.current!.z * impulseStrength
-            },
-            impulsePoint,
-            true
-          );
-        }
-      }
+    if (!hitRigidBody || hitRigidBody.handle !== playerHandle) {
+      dotRef.current.position
+        .copy(rayOrigin)
+        .addScaledVector(shootRayDirection.current!, aimRay.timeOfImpact);
     }
   }
+
+  if (shoot.current <= 0) return;
+  const shots = shoot.current;
+  shoot.current = 0;
+
+  // Each pellet of each queued shot gets its own spread-deflected ray
+  const pellets = Math.max(weapon.pellets ?? 1, 1) * shots;
+  for (let i = 0; i < pellets; i++) {
+    const pelletDirection = applySpread(shootRayDirection.current!.clone(), weapon.spread);
+    const shootRay = world.castRayAndGetNormal(
+      new RAPIER.Ray(rayOrigin, pelletDirection),
+      weapon.range,
+      true,
+      undefined,
+      undefined,
+      undefined,
+      controls.current ?? undefined // Never hit the shooter
+    );
+
+    if (!shootRay || !shootRay.collider) continue;
+
+    const hitRigidBody = shootRay.collider.parent();
+    const impulsePoint = new THREE.Vector3()
+      .copy(rayOrigin)
+      .addScaledVector(pelletDirection, shootRay.timeOfImpact);
+
+    if (hitRigidBody && hitRigidBody.isValid() && playerHandle !== undefined && hitRigidBody.handle !== playerHandle) {
+      hitRigidBody.applyImpulseAtPoint(
+        {
+          x: pelletDirection.x * weapon.impulse,
+          y: pelletDirection.y * weapon.impulse,
+          z: pelletDirection.z * weapon.impulse
+        },
+        impulsePoint,
+        true
+      );
+    }
+
+    const userData = (hitRigidBody?.userData ?? undefined) as HitTargetUserData | undefined;
+
+    onHit?.({
+      point: impulsePoint,
+      normal: new THREE.Vector3(shootRay.normal.x, shootRay.normal.y, shootRay.normal.z),
+      direction: pelletDirection,
+      distance: shootRay.timeOfImpact,
+      collider: shootRay.collider,
+      rigidBody: hitRigidBody ?? null,
+      weapon,
+      userData,
+      ...resolveDamage(userData, weapon, team)
+    });
+  }
 }
@@ -0,0 +1,90 @@
+import React from 'react';
+import type { StaminaConfig, StaminaState, StaminaStore } from './types';
+
+export const DEFAULT_STAMINA_CONFIG: StaminaConfig = {
+  maxStamina: 100,
+  sprintDrainRate: 20,
+  jumpCost: 10,
+  regenRate: 25,
+  regenDelay: 1000,
+  recoveryThreshold: 30,
+};
+
+export function createStaminaStore(overrides: Partial<StaminaConfig> = {}): StaminaStore {
+  const config: StaminaConfig = { ...DEFAULT_STAMINA_CONFIG, ...overrides };
+  const listeners = new Set<(state: StaminaState) => void>();
+
+  let state: StaminaState = {
+    stamina: config.maxStamina,
+    maxStamina: config.maxStamina,
+    sprinting: false,
+    exhausted: false,
+    lastDrainTime: 0,
+  };
+
+  // State is replaced rather than mutated so subscribers can compare snapshots
+  const setState = (partial: Partial<StaminaState>) => {
+    state = { ...state, ...partial };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const drain = (amount: number) => {
+    if (amount <= 0) return;
+    const stamina = Math.max(state.stamina - amount, 0);
+    setState({
+      stamina,
+      lastDrainTime: Date.now(),
+      exhausted: state.exhausted || stamina === 0,
+    });
+  };
+
+  return {
+    config,
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setConfig: (partial) => {
+      Object.assign(config, partial);
+      if (state.maxStamina !== config.maxStamina) {
+        setState({ maxStamina: config.maxStamina, stamina: Math.min(state.stamina, config.maxStamina) });
+      }
+    },
+    drain,
+    restore: (amount) => {
+      if (amount <= 0 || state.stamina >= state.maxStamina) return;
+      const stamina = Math.min(state.stamina + amount, state.maxStamina);
+      setState({ stamina, exhausted: state.exhausted && stamina < config.recoveryThreshold });
+    },
+    reset: () => {
+      setState({ stamina: state.maxStamina, sprinting: false, exhausted: false, lastDrainTime: 0 });
+    },
+    update: (delta, wantsSprint) => {
+      const sprinting = wantsSprint && !state.exhausted;
+
+      if (sprinting) {
+        drain(config.sprintDrainRate * delta);
+      } else if (state.stamina < state.maxStamina && Date.now() - state.lastDrainTime >= config.regenDelay) {
+        const stamina = Math.min(state.stamina + config.regenRate * delta, state.maxStamina);
+        setState({ stamina, exhausted: state.exhausted && stamina < config.recoveryThreshold });
+      }
+
+      // Running dry this frame ends the sprint immediately
+      const allowed = sprinting && !state.exhausted;
+      if (allowed !== state.sprinting) setState({ sprinting: allowed });
+
+      return allowed;
+    },
+  };
+}
+
+// Subscribes a component to a stamina store, optionally to a slice of it
+export function useStamina(store: StaminaStore): StaminaState;
+export function useStamina<T>(store: StaminaStore, selector: (state: StaminaState) => T): T;
+export function useStamina<T>(store: StaminaStore, selector?: (state: StaminaState) => T) {
+  const getSnapshot = () => selector ? selector(store.getState()) : store.getState();
+  return React.useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
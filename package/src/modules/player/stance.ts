@@ -0,0 +1,133 @@
+import RAPIER from '@dimforge/rapier3d-compat';
+import type { Stance, StanceConfig, StanceParams, StanceSettings, StanceState } from './types';
+
+export const DEFAULT_STANCE_CONFIG: StanceConfig = {
+  crouch: { heightScale: 0.65, cameraDrop: 0.5, speedMultiplier: 0.5 },
+  prone: { heightScale: 0.35, cameraDrop: 1.05, speedMultiplier: 0.25 },
+  toggleCrouch: false,
+  cameraLerp: 0.15,
+};
+
+// Matches the standing CapsuleCollider's position in the player's rigid body
+const CAPSULE_CENTER_Y = 0.8;
+const HEADROOM_MARGIN = 0.05;
+
+const STANDING: StanceSettings = { heightScale: 1, cameraDrop: 0, speedMultiplier: 1 };
+
+export function createStanceState(): StanceState {
+  return {
+    stance: 'standing',
+    crouchLatched: false,
+    proneLatched: false,
+    cameraDrop: 0,
+  };
+}
+
+export function getStanceSettings(config: StanceConfig, stance: Stance): StanceSettings {
+  if (stance === 'crouching') return config.crouch;
+  if (stance === 'prone') return config.prone || config.crouch;
+  return STANDING;
+}
+
+// Capsule half height, radius and centre for a stance, keeping the capsule's bottom where the
+// standing one is. Very low stances shrink the radius once the cylinder part is gone.
+export function getStanceCollider(
+  colliderArgs: [height: number, radius: number],
+  heightScale: number
+): { halfHeight: number; radius: number; centerY: number } {
+  const [halfHeight, radius] = colliderArgs;
+  const standingHeight = (halfHeight + radius) * 2;
+  const height = standingHeight * heightScale;
+  const scaledRadius = Math.min(radius, height / 2);
+
+  return {
+    halfHeight: Math.max(height / 2 - scaledRadius, 0),
+    radius: scaledRadius,
+    centerY: CAPSULE_CENTER_Y - (standingHeight - height) / 2,
+  };
+}
+
+// Height of the capsule's bottom above the body's origin, 0 for the default colliderArgs and
+// below it for taller capsules. Stances shrink the capsule from the top, so it's the same in all.
+export function getFeetHeight(colliderArgs: [height: number, radius: number]): number {
+  const { centerY, halfHeight, radius } = getStanceCollider(colliderArgs, 1);
+  return centerY - halfHeight - radius;
+}
+
+// Checks there's room above the player to grow the capsule to the given height scale
+function hasHeadroom(
+  { world, controls, colliderArgs }: Pick<StanceParams, 'world' | 'controls' | 'colliderArgs'>,
+  from: number,
+  to: number
+): boolean {
+  if (!controls.current) return false;
+
+  const current = getStanceCollider(colliderArgs, from);
+  const target = getStanceCollider(colliderArgs, to);
+  const top = current.centerY + current.halfHeight + current.radius;
+  const targetTop = target.centerY + target.halfHeight + target.radius;
+
+  // Cast from just inside the current head, ignoring the player's own body
+  const position = controls.current.translation();
+  const ray = new RAPIER.Ray({ x: position.x, y: position.y + top - 0.1, z: position.z }, { x: 0, y: 1, z: 0 });
+  const hit = world.castRay(ray, targetTop - top + 0.1 + HEADROOM_MARGIN, true, undefined, undefined, undefined, controls.current);
+
+  return !hit;
+}
+
+// Resolves crouch/prone input into a stance, refusing to rise under a ceiling.
+// Returns the stance in effect, the collider is resized from it with getStanceCollider.
+export function handleStance({
+  state,
+  config,
+  crouchHeld,
+  crouchPressed,
+  pronePressed,
+  jumpPressed,
+  delta,
+  world,
+  controls,
+  colliderArgs,
+  onStanceChange
+}: StanceParams): Stance {
+  // Crouching out of prone goes to crouch, jumping stands all the way up
+  if (crouchPressed && state.stance === 'prone') {
+    state.proneLatched = false;
+    state.crouchLatched = true;
+  } else if (config.toggleCrouch && crouchPressed) {
+    state.crouchLatched = !state.crouchLatched;
+  }
+  if (pronePressed && config.prone) {
+    state.proneLatched = !state.proneLatched;
+  }
+  if (jumpPressed) {
+    state.proneLatched = false;
+    state.crouchLatched = false;
+  }
+
+  const crouching = config.toggleCrouch ? state.crouchLatched : crouchHeld;
+  const desired: Stance = state.proneLatched ? 'prone' : crouching ? 'crouching' : 'standing';
+
+  let next = desired;
+  const currentScale = getStanceSettings(config, state.stance).heightScale;
+  if (getStanceSettings(config, desired).heightScale > currentScale) {
+    const params = { world, controls, colliderArgs };
+    if (!hasHeadroom(params, currentScale, getStanceSettings(config, desired).heightScale)) {
+      // Fall back to crouching when there's room for that but not for standing
+      next = state.stance === 'prone' && desired === 'standing' && hasHeadroom(params, currentScale, config.crouch.heightScale)
+        ? 'crouching'
+        : state.stance;
+    }
+  }
+
+  if (next !== state.stance) {
+    state.stance = next;
+    onStanceChange?.(next);
+  }
+
+  // Ease the camera towards the stance's height, framerate independently
+  const targetDrop = getStanceSettings(config, state.stance).cameraDrop;
+  state.cameraDrop += (targetDrop - state.cameraDrop) * (1 - Math.pow(1 - config.cameraLerp, delta * 60));
+
+  return state.stance;
+}
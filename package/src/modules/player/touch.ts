@@ -0,0 +1,24 @@
+import type { TouchControlsOptions } from './types';
+import { TOUCH_LOOK_SENSITIVITY } from './constants';
+
+export const DEFAULT_TOUCH_OPTIONS: TouchControlsOptions = {
+  lookSensitivity: TOUCH_LOOK_SENSITIVITY,
+  joystickRadius: 60,
+  runThreshold: 0.9,
+  aimToggle: true,
+  showReload: true,
+};
+
+// Coarse primary pointer with touch support, i.e. phones and tablets but not touch laptops
+export function isTouchDevice(): boolean {
+  if (typeof window === 'undefined' || typeof navigator === 'undefined') return false;
+
+  const hasTouch = 'ontouchstart' in window || navigator.maxTouchPoints > 0;
+  const coarsePointer = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+
+  return hasTouch && coarsePointer;
+}
+
+export function resolveTouchControls(touchControls: boolean | 'auto'): boolean {
+  return touchControls === 'auto' ? isTouchDevice() : touchControls;
+}
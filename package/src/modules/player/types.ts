@@ -1,6 +1,6 @@
 import * as THREE from 'three';
 import type { GLTF } from 'three-stdlib';
-import type { RapierRigidBody } from '@react-three/rapier';
+import type { RapierRigidBody, RapierCollider, useRapier } from '@react-three/rapier';
 
 export type ActionName = 'idle' | 'forwardWalk' | 'backwardWalk' | 'runForward' | 'runBackward' | 'strafeLeft' | 'strafeRight';
 
@@ -27,22 +27,607 @@ export type GLTFResult = GLTF & {
   animations: GLTFAction[];
 };
 
+// Skeleton bones the player drives, found by name so any rig order works
+export type BoneRole =
+  | 'hips'
+  | 'spine'
+  | 'chest' // Upper spine, bent by the aim offset and the muzzle flash anchor
+  | 'neck'
+  | 'head'
+  | 'leftUpperArm'
+  | 'leftLowerArm'
+  | 'leftHand'
+  | 'rightUpperArm'
+  | 'rightLowerArm'
+  | 'rightHand'
+  | 'rightHandIndex'
+  | 'leftUpperLeg'
+  | 'leftLowerLeg'
+  | 'leftFoot'
+  | 'rightUpperLeg'
+  | 'rightLowerLeg'
+  | 'rightFoot';
+
+// An exact bone name (with or without the ':' that loaders strip), a pattern, or candidates tried in order
+export type BoneMatcher = string | RegExp | (string | RegExp)[];
+
+export type BoneMap = Record<BoneRole, BoneMatcher>;
+
+export interface BoneResolution {
+  bones: Partial<Record<BoneRole, THREE.Bone>>;
+  missing: BoneRole[];
+}
+
+export interface Rig {
+  bones: THREE.Bone[];
+  rootBones: THREE.Bone[]; // Bones without a bone parent, usually the hips
+  skinnedMeshes: THREE.SkinnedMesh[];
+}
+
+// A clip in an .fbx, .glb or .gltf file, picked by name when the file holds several
+export interface AnimationClipSource {
+  url?: string; // Omitted to take the clip from the character model itself
+  clip?: string; // Name of the clip in the file, defaults to its first clip
+  // Retargets the clip from the rig it was authored for: true for a rig with the default
+  // (Mixamo) bone names, or a bone map for its names. Overrides the retargetAnimations prop.
+  retarget?: boolean | Partial<BoneMap>;
+}
+
+// A file path, loading the file's first clip, or a clip picked by name
+export type AnimationSource = string | AnimationClipSource;
+
+export interface AnimationPaths {
+  idle?: AnimationSource;
+  walkForward?: AnimationSource;
+  walkBackward?: AnimationSource;
+  runForward?: AnimationSource;
+  runBackward?: AnimationSource;
+  strafeLeft?: AnimationSource;
+  strafeRight?: AnimationSource;
+  jumpStart?: AnimationSource;
+  jumpEnd?: AnimationSource;
+  reload?: AnimationSource; // Generated from the idle pose without one, see createReloadClip
+  death?: AnimationSource; // Generated from the idle pose without one, see createDeathClip
+  // Stance clips are generated from the standing ones without them, see createStanceClips
+  crouchIdle?: AnimationSource;
+  crouchWalkForward?: AnimationSource;
+  crouchWalkBackward?: AnimationSource;
+  crouchStrafeLeft?: AnimationSource;
+  crouchStrafeRight?: AnimationSource;
+  proneIdle?: AnimationSource;
+  proneCrawl?: AnimationSource;
+  // Further clips for custom animation states, e.g. emote: '/animations/wave.fbx'
+  [clip: string]: AnimationSource | undefined;
+}
+
+export interface AnimationSetupOptions {
+  embeddedClips?: THREE.AnimationClip[]; // Clips shipped inside the character model
+  rest?: THREE.Object3D; // The character in its rest pose, the target of retargeting
+  boneMap?: BoneMap; // The character's bones
+  retarget?: boolean | Partial<BoneMap>; // Default source rig of clips loaded from files
+}
+
+// What the player is doing this frame, as seen by animation transitions
+export interface AnimationContext {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  moving: boolean;
+  run: boolean;
+  // Horizontal velocity relative to the player's facing, x right and y forward, in walking
+  // speeds of the current stance, so sprinting forward is about (0, RUN_MULTIPLIER)
+  velocity: { x: number; y: number };
+  grounded: boolean;
+  jumping: boolean; // From take-off until the jump clip has played and the player has landed
+  reloading: boolean;
+  dead: boolean;
+  aiming: boolean;
+  pitch: number; // Look pitch in radians, positive looking down
+  recoil: number; // Current recoil intensity, see handleRecoil
+  stance: Stance;
+  params: Record<string, unknown>; // Set with AnimationStateMachine.setParameter
+  stateTime: number; // seconds spent in the layer's current state
+  stateFinished: boolean; // A non-looping state has played its clip through
+}
+
+export type AnimationInput = Omit<AnimationContext, 'params' | 'stateTime' | 'stateFinished'>;
+
+// A clip placed in a 2D blend space, usually at the velocity it was animated for
+export interface BlendSpacePoint {
+  clip: string;
+  x: number;
+  y: number;
+}
+
+export interface AnimationStateDefinition {
+  clip?: string; // Key of the clip in animationPaths
+  // Plays several clips at once instead, weighted by where the blend parameter falls
+  // between their points. The clips are kept in step so their cycles line up.
+  blendSpace?: BlendSpacePoint[];
+  blendParameter?: (context: AnimationContext) => { x: number; y: number }; // Defaults to context.velocity
+  loop?: boolean; // Defaults to true, one-shot states hold their last frame
+  timeScale?: number;
+  // Non-interruptible states ignore wildcard transitions until their clip has finished,
+  // except those marked interrupt, e.g. for one-shot emotes
+  interruptible?: boolean;
+}
+
+export interface AnimationTransition {
+  from: string | string[]; // State names, or '*' for any state
+  to: string | null; // null empties a layer so the ones below show through, ignored on the base layer
+  when?: (context: AnimationContext) => boolean;
+  trigger?: string; // Only fires after AnimationStateMachine.trigger(name)
+  blendTime?: number; // seconds, defaults to the machine's blendTime
+  interrupt?: boolean; // Also leaves non-interruptible states
+  restart?: boolean; // Plays the clip again from the start when already in the target state
+}
+
+// Bones a layer animates, matched against bone (track node) names
+export type BoneMask = RegExp | string[] | ((boneName: string) => boolean);
+
+// A state machine of its own playing over the base layer, e.g. upper-body aim and reload
+// clips over lower-body locomotion
+export interface AnimationLayerDefinition {
+  mask?: BoneMask; // All bones when omitted
+  // Additive layers add their clips' offsets onto the layers below instead of replacing them
+  additive?: boolean;
+  weight?: number | ((context: AnimationContext) => number); // 0-1, defaults to 1
+  initial?: string | null; // Empty by default
+  states: Record<string, AnimationStateDefinition>;
+  transitions: AnimationTransition[];
+  blendTime?: number; // seconds, defaults to the machine's blendTime
+}
+
+export interface AnimationStateMachineConfig {
+  initial: string;
+  states: Record<string, AnimationStateDefinition>;
+  // Checked in order each frame, the first that matches decides the state
+  transitions: AnimationTransition[];
+  blendTime: number; // seconds
+  // Played over the base layer in order, later layers over earlier ones
+  layers: Record<string, AnimationLayerDefinition>;
+}
+
+export type AnimationStateMachineOverrides = Partial<Omit<AnimationStateMachineConfig, 'layers'>> & {
+  layers?: Record<string, Partial<AnimationLayerDefinition>>;
+};
+
+export interface AnimationStateMachine {
+  config: AnimationStateMachineConfig;
+  getState: () => string; // Of the base layer
+  getLayerState: (layer: string) => string | null;
+  subscribe: (listener: (state: string | null, previous: string | null, layer: string) => void) => () => void;
+  // Creates an action per state from the named clips, returns an unbind function
+  bind: (mixer: THREE.AnimationMixer, root: THREE.Object3D, clips: Record<string, THREE.AnimationClip>) => () => void;
+  update: (input: AnimationInput, delta: number) => void;
+  trigger: (name: string) => void;
+  setParameter: (name: string, value: unknown) => void;
+  // Forces a state regardless of transitions, in the layer that defines it
+  setState: (state: string, blendTime?: number) => void;
+  getActions: (state: string) => THREE.AnimationAction[]; // Every clip of the state, empty if unbound
+  getDuration: (state: string) => number; // seconds at the state's current speed, 0 if unbound
+}
+
+export interface RecoilConfig {
+  strength: number;
+  duration: number; // milliseconds
+  // Maps recoil progress (0-1) to intensity (0-1), defaults to a sine bump
+  curve?: (progress: number) => number;
+}
+
+export interface MuzzleFlashConfig {
+  texture?: string | THREE.Texture; // Defaults to the procedural flash texture
+  offset: [x: number, y: number, z: number]; // Barrel offset from the aim bone
+  size: number;
+  duration: number; // milliseconds
+  lightIntensity: number;
+  lightDistance: number;
+  lightColor: THREE.ColorRepresentation;
+}
+
+export type FireMode = 'semi' | 'auto' | 'burst';
+
+export interface WeaponDefinition {
+  id: string;
+  name?: string;
+  fireRate: number; // rounds per minute
+  fireModes?: FireMode[]; // Cycled with the fire mode key, defaults to ['semi']
+  burstCount?: number; // Rounds per burst, defaults to 3
+  range: number; // metres
+  impulse: number;
+  damage?: number; // Per pellet, defaults to 25
+  spread: number; // cone half-angle in radians
+  pellets?: number; // rays per shot, e.g. for shotguns
+  recoil: RecoilConfig;
+  muzzleFlash: MuzzleFlashConfig;
+  shotSound: string;
+  dryFireSound?: string; // Played when firing with an empty magazine
+  magazineSize: number;
+  reserveAmmo: number; // Rounds carried besides the magazine, Infinity for unlimited
+  reloadTime: number; // milliseconds
+  autoReload?: boolean; // Start reloading when firing an empty magazine, defaults to true
+  animations?: AnimationPaths; // Overrides the player's animationPaths while equipped
+  // Where the left hand holds the weapon, in metres in the right hand's space. Without it the
+  // left hand keeps the offset from the right hand that the clips give it.
+  leftHandGrip?: [x: number, y: number, z: number];
+}
+
+export interface AmmoState {
+  magazine: number;
+  reserve: number;
+  reloading: boolean;
+  reloadStartTime: number;
+}
+
+export interface TriggerState {
+  held: boolean;
+  pressed: boolean; // Set on press, consumed by the next fire control update
+  cooldown: number; // seconds until the next shot is allowed
+  burstRemaining: number;
+  modeIndex: number;
+}
+
+// Opt-in convention for RigidBody userData, e.g. <RigidBody userData={{ health: 100, team: 'red' }}>
+export interface HitTargetUserData {
+  health?: number; // Reduced by each hit when present
+  team?: string; // Hits on the shooter's team deal no damage
+  damageMultiplier?: number;
+  [key: string]: unknown;
+}
+
+export interface HitEvent {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  direction: THREE.Vector3;
+  distance: number;
+  collider: RapierCollider;
+  rigidBody: RapierRigidBody | null;
+  weapon: WeaponDefinition;
+  userData?: HitTargetUserData;
+  damage: number; // 0 for friendly or non-damageable targets
+  friendly: boolean;
+  killed: boolean; // This hit brought userData.health from above zero to zero
+}
+
+export interface HealthConfig {
+  maxHealth: number;
+  armor: number; // Starting armor
+  maxArmor: number;
+  armorAbsorption: number; // Fraction of incoming damage taken by armor (0-1)
+  regenRate: number; // health per second, 0 disables regeneration
+  regenDelay: number; // milliseconds after the last damage before regeneration starts
+  invulnerabilityTime: number; // milliseconds of invulnerability after taking damage
+  respawnInvulnerability: number; // milliseconds of invulnerability after respawning
+  respawnDelay: number; // milliseconds between death and respawn
+  autoRespawn: boolean;
+}
+
+export interface DamageOptions {
+  source?: string;
+  ignoreArmor?: boolean;
+  ignoreInvulnerability?: boolean;
+  triggersInvulnerability?: boolean; // Defaults to true, damage over time never triggers it
+}
+
+export interface DamageOverTime {
+  id: string;
+  damagePerSecond: number;
+  duration: number; // milliseconds, Infinity until removed
+  startTime: number;
+  options?: DamageOptions;
+}
+
+export interface HealthState {
+  health: number;
+  maxHealth: number;
+  armor: number;
+  maxArmor: number;
+  dead: boolean;
+  deathTime: number;
+  lastDamageTime: number;
+  invulnerableUntil: number;
+  effects: DamageOverTime[];
+  respawnCount: number;
+}
+
+export interface HealthStore {
+  config: HealthConfig;
+  getState: () => HealthState;
+  subscribe: (listener: (state: HealthState) => void) => () => void;
+  applyDamage: (amount: number, options?: DamageOptions) => number; // Returns health lost
+  heal: (amount: number) => void;
+  addArmor: (amount: number) => void;
+  addDamageOverTime: (effect: Omit<DamageOverTime, 'startTime'>) => void;
+  removeDamageOverTime: (id: string) => void;
+  setInvulnerable: (duration: number) => void;
+  kill: () => void;
+  respawn: () => void;
+  update: (delta: number) => void; // Ticks damage over time and regeneration
+}
+
+export interface StaminaConfig {
+  maxStamina: number;
+  sprintDrainRate: number; // Stamina per second while sprinting
+  jumpCost: number; // Stamina per jump
+  regenRate: number; // Stamina per second once regeneration starts
+  regenDelay: number; // milliseconds after the last drain
+  recoveryThreshold: number; // Stamina needed to sprint again after running dry
+}
+
+export interface StaminaState {
+  stamina: number;
+  maxStamina: number;
+  sprinting: boolean;
+  exhausted: boolean; // Ran dry and hasn't recovered to recoveryThreshold yet
+  lastDrainTime: number;
+}
+
+export interface StaminaStore {
+  config: StaminaConfig;
+  getState: () => StaminaState;
+  subscribe: (listener: (state: StaminaState) => void) => () => void;
+  setConfig: (config: Partial<StaminaConfig>) => void;
+  drain: (amount: number) => void;
+  restore: (amount: number) => void;
+  reset: () => void;
+  update: (delta: number, wantsSprint: boolean) => boolean; // Drains or regenerates, returns whether sprinting is allowed
+}
+
+export interface AmmoInfo {
+  weapon: WeaponDefinition;
+  magazine: number;
+  reserve: number;
+  reloading: boolean;
+}
+
+export type PlayerAction =
+  | 'forward' | 'backward' | 'left' | 'right' | 'run' | 'jump' | 'crouch' | 'prone'
+  | 'fire' | 'aim' | 'reload' | 'switchFireMode' | 'nextWeapon' | 'previousWeapon' | 'swapShoulder' | 'toggleCameraMode'
+  | 'weapon1' | 'weapon2' | 'weapon3' | 'weapon4' | 'weapon5' | 'weapon6' | 'weapon7' | 'weapon8' | 'weapon9';
+
+export type InputBinding =
+  | { device: 'keyboard'; key: string } // KeyboardEvent.code ('KeyW') or key ('w'), case-insensitive
+  | { device: 'mouse'; button: number }
+  | { device: 'gamepad'; button: number } // Standard gamepad mapping button index
+  | { device: 'gamepadAxis'; axis: number; direction: 1 | -1; threshold?: number };
+
+// Actions are open-ended so games can bind their own (e.g. 'emote', 'interact')
+export type InputBindings = Partial<Record<PlayerAction, InputBinding[]>> & Record<string, InputBinding[]>;
+
+export type StickCurve = 'linear' | 'quadratic' | 'cubic' | ((value: number) => number);
+
+export interface StickConfig {
+  deadZone: number; // 0-1, radial
+  sensitivity: number; // radians per second at full deflection (look stick only)
+  curve: StickCurve;
+  invertY: boolean;
+}
+
+export interface InputConfig {
+  bindings: InputBindings;
+  mouseSensitivity: number; // radians per pixel
+  requirePointerLock: boolean; // Ignore mouse look and buttons unless the pointer is locked
+  gamepadIndex?: number; // Defaults to the first connected gamepad
+  moveStick: StickConfig & { axes: [x: number, y: number] };
+  lookStick: StickConfig & { axes: [x: number, y: number] };
+}
+
+export interface InputManager {
+  config: InputConfig;
+  setBindings: (bindings: InputBindings) => void;
+  attach: (target?: Document | HTMLElement) => () => void;
+  update: (delta: number) => void; // Call once per frame before reading actions
+  isDown: (action: string) => boolean;
+  wasPressed: (action: string) => boolean; // Since the previous update
+  wasReleased: (action: string) => boolean;
+  getLookDelta: () => { x: number; y: number }; // Radians this frame
+  getMoveVector: () => { x: number; y: number }; // x right, y forward, length <= 1
+  // Synthetic input for tests, replays, bots and on-screen controls
+  press: (action: string) => void;
+  release: (action: string) => void;
+  addLook: (x: number, y: number) => void;
+  setMove: (x: number, y: number) => void;
+  reset: () => void;
+}
+
+export interface BindingConflict {
+  action: string;
+  index: number;
+  binding: InputBinding;
+}
+
+export interface BindingsStoreOptions {
+  defaults: InputBindings;
+  storageKey: string | null; // localStorage key, null disables persistence
+}
+
+export interface BindingsStore {
+  defaults: InputBindings;
+  getBindings: () => InputBindings;
+  subscribe: (listener: (bindings: InputBindings) => void) => () => void;
+  setActionBindings: (action: string, bindings: InputBinding[]) => void;
+  // Replaces (or appends, when index is past the end) one binding, returning the actions it collides with
+  rebind: (action: string, index: number, binding: InputBinding, options?: { unbindConflicts?: boolean }) => BindingConflict[];
+  unbind: (action: string, index: number) => void;
+  findConflicts: (binding: InputBinding, ignoreAction?: string) => BindingConflict[];
+  resetAction: (action: string) => void;
+  resetAll: () => void;
+  exportJSON: () => string;
+  importJSON: (json: string) => void; // Throws on malformed input
+  attachInput: (input: InputManager) => () => void; // Keeps the manager's bindings in sync
+}
+
+export interface KeyBindingsMenuProps {
+  store: BindingsStore;
+  actions?: string[]; // Defaults to every action in the store's defaults
+  labels?: Partial<Record<string, string>>;
+  style?: React.CSSProperties;
+  onClose?: () => void;
+}
+
+export interface TouchControlsOptions {
+  lookSensitivity: number; // radians per dragged pixel
+  joystickRadius: number; // pixels
+  runThreshold: number; // Joystick deflection (0-1) beyond which the player runs
+  aimToggle: boolean; // Tap the aim button to toggle instead of holding it
+  showReload: boolean;
+}
+
+export interface TouchControlsProps extends Partial<TouchControlsOptions> {
+  input: InputManager;
+}
+
+export type Stance = 'standing' | 'crouching' | 'prone';
+
+export interface StanceSettings {
+  heightScale: number; // Capsule height as a fraction of the standing height
+  cameraDrop: number; // Metres the camera target moves down
+  speedMultiplier: number; // Applied to MOVE_SPEED
+}
+
+export interface StanceConfig {
+  crouch: StanceSettings;
+  prone: StanceSettings | false; // false disables prone
+  toggleCrouch: boolean; // Crouch toggles on press instead of being held
+  cameraLerp: number; // Camera height blend per frame
+}
+
+export interface StanceState {
+  stance: Stance;
+  crouchLatched: boolean;
+  proneLatched: boolean;
+  cameraDrop: number; // Smoothed towards the stance's cameraDrop
+}
+
+export type ControllerMode = 'dynamic' | 'kinematic';
+
+// Taken from @react-three/rapier so they match the RAPIER version the colliders come from
+export type RapierModule = ReturnType<typeof useRapier>['rapier'];
+export type CharacterController = ReturnType<ReturnType<typeof useRapier>['world']['createCharacterController']>;
+
+export interface GroundConfig {
+  probeDistance: number; // metres below the feet that still count as grounded
+  maxSlopeAngle: number; // radians, steeper ground slides the player down
+  slideSpeed: number; // m/s down steep slopes
+  stepHeight: number; // metres, ledges up to this height are stepped onto (0 disables)
+  stepProbeDistance: number; // metres ahead of the capsule to look for ledges
+}
+
+export interface GroundInfo {
+  grounded: boolean;
+  walkable: boolean; // Grounded on a slope no steeper than maxSlopeAngle
+  normal: THREE.Vector3;
+  slopeAngle: number; // radians
+  distance: number; // metres from the feet to the ground
+  collider: RapierCollider | null;
+}
+
+export interface GroundParams {
+  rapier: RapierModule;
+   
+  world: any; // RAPIER world - using any to avoid version conflicts
+  controls: React.RefObject<RapierRigidBody | null>;
+  radius: number; // Capsule radius
+  feetHeight?: number; // m from the body's origin to the capsule's bottom, see getFeetHeight
+  config: GroundConfig;
+  ground: GroundInfo; // Updated in place
+}
+
+export interface KinematicControllerConfig {
+  offset: number; // Skin gap kept between the capsule and obstacles, metres
+  maxSlopeClimbAngle: number; // radians
+  minSlopeSlideAngle: number; // radians, steeper slopes slide the player down
+  autoStepHeight: number; // metres, 0 disables auto-stepping
+  autoStepMinWidth: number; // metres of free space needed on top of a step
+  stepOnDynamicBodies: boolean;
+  snapToGroundDistance: number; // metres, 0 disables snapping
+  rideMovingPlatforms: boolean;
+  pushDynamicBodies: boolean;
+  gravityScale: number; // Multiplies the physics world's gravity
+  jumpSpeed: number; // m/s
+}
+
+export interface KinematicState {
+  verticalVelocity: number;
+  horizontalVelocity: { x: number; z: number }; // Integrated by the locomotion model
+  grounded: boolean;
+  traction: number; // Of the ground stood on last frame
+  platformVelocity: { x: number; y: number; z: number }; // Of the body stood on last frame
+}
+
 export interface PlayerProps extends React.ComponentProps<'group'> {
   // Asset paths - all optional with defaults
   modelPath?: string;
-  animationPaths?: {
-    idle?: string;
-    walkForward?: string;
-    walkBackward?: string;
-    runForward?: string;
-    runBackward?: string;
-    strafeLeft?: string;
-    strafeRight?: string;
-    jumpStart?: string;
-    jumpEnd?: string;
-  };
+  animationPaths?: AnimationPaths;
   audioPath?: string;
+
+  // Skeleton - bone names for custom rigs, merged with the Mixamo defaults
+  boneMap?: Partial<BoneMap>;
+  modelScale?: number; // Armature scale, 0.01 for Mixamo exports in centimetres
+  retargetAnimations?: boolean | Partial<BoneMap>; // Rig the animation files were authored for, see AnimationClipSource
+
+  // Animation - the caller's state machine, e.g. with custom states, or the default one
+  animator?: AnimationStateMachine;
+
+  // Weapons - defaults to a single pistol using audioPath
+  weapons?: WeaponDefinition[];
+  initialWeapon?: number;
+  onWeaponChange?: (weapon: WeaponDefinition, index: number) => void;
+  onFireModeChange?: (mode: FireMode, weapon: WeaponDefinition) => void;
+
+  // Ammo callbacks for HUDs
+  onAmmoChange?: (ammo: AmmoInfo) => void;
+  onReloadStart?: (weapon: WeaponDefinition) => void;
+  onReloadEnd?: (weapon: WeaponDefinition, completed: boolean) => void;
+
+  // Hit reporting for damage, hit markers and kill feeds
+  onHit?: (hit: HitEvent) => void;
+  team?: string;
+
+  // Health - a store created with createHealthStore, or one owned by the player
+  health?: HealthStore;
+  spawnPoint?: [x: number, y: number, z: number]; // Defaults to position
+  onDeath?: () => void;
+  onRespawn?: () => void;
   
+  // Input - defaults to keyboard, mouse and gamepad with DEFAULT_INPUT_BINDINGS
+  input?: InputManager;
+  bindings?: BindingsStore; // Remappable bindings applied to the input manager
+  touchControls?: boolean | 'auto'; // On-screen controls instead of pointer lock, 'auto' enables them on touch devices
+  touchOptions?: Partial<TouchControlsOptions>;
+
+  // Stamina - a store created with createStaminaStore, or one owned by the player
+  stamina?: StaminaStore;
+  staminaOptions?: Partial<StaminaConfig>; // Rates for the player's store, or overrides for the given one
+
+  // Stances - crouch is held (C by default), prone toggles (Z by default)
+  stances?: Partial<StanceConfig>;
+  onStanceChange?: (stance: Stance) => void;
+
+  // Locomotion - acceleration, deceleration and friction on the ground and in the air
+  locomotionOptions?: Partial<LocomotionConfig>;
+
+  // Jumping - air control, coyote time, buffering, variable height and air jumps
+  jumpOptions?: Partial<JumpConfig>;
+
+  // Camera - a preset name or a rig configuration, switchable at runtime
+  cameraRig?: CameraRigPreset | CameraRigOptions;
+  cameraMode?: CameraMode; // The view to start in and switch to when changed, toggled with the toggleCameraMode action
+  firstPersonOptions?: Partial<FirstPersonConfig>;
+  onCameraModeChange?: (mode: CameraMode) => void;
+  occlusionOptions?: Partial<OcclusionConfig>; // Pull the camera in front of walls, or fade them out
+
+  // Inverse kinematics - hands on the weapon and feet on uneven ground
+  ikOptions?: Partial<IKConfig>;
+
+  // Ground handling for 'dynamic' mode: slope projection, sliding and step-up
+  groundOptions?: Partial<GroundConfig>;
+
+  // Movement - 'dynamic' drives a physics body by velocity, 'kinematic' uses Rapier's character controller
+  controllerMode?: ControllerMode;
+  kinematicOptions?: Partial<KinematicControllerConfig>;
+
   // Physics and behavior props
   colliderArgs?: [height: number, radius: number];
   mass?: number;
@@ -67,7 +652,7 @@ export interface PlayerRefs {
   controls: React.RefObject<RapierRigidBody>;
   mouseRotationRef: React.MutableRefObject<{ x: number; y: number }>;
   jumpPressedRef: React.MutableRefObject<boolean>;
-  shoot: React.MutableRefObject<boolean>;
+  shoot: React.MutableRefObject<number>;
   zoom: React.MutableRefObject<boolean>;
   shotSfxRef: React.RefObject<THREE.PositionalAudio>;
   leftHandBone: React.MutableRefObject<THREE.Bone | null>;
@@ -75,8 +660,6 @@ export interface PlayerRefs {
   rightPalmBone: React.MutableRefObject<THREE.Bone | null>;
   recoilActive: React.MutableRefObject<boolean>;
   recoilStartTime: React.MutableRefObject<number>;
-  leftHandOriginalRotation: React.MutableRefObject<THREE.Euler>;
-  rightHandOriginalRotation: React.MutableRefObject<THREE.Euler>;
   muzzleFlashRef: React.RefObject<THREE.Mesh>;
   muzzleFlashLightRef: React.RefObject<THREE.PointLight>;
   muzzleFlashActive: React.MutableRefObject<boolean>;
@@ -88,53 +671,214 @@ export interface PlayerRefs {
   dotRef: React.RefObject<THREE.Mesh>;
 }
 
+export interface LocomotionConfig {
+  groundAcceleration: number; // m/s² towards the input direction
+  groundDeceleration: number; // m/s² when letting go or turning away
+  groundFriction: number; // 1/s decay of speed beyond the player's own top speed, e.g. knockback
+  airAcceleration: number; // Scaled by JumpConfig.airControl
+  airDeceleration: number; // Scaled by JumpConfig.airControl
+  airFriction: number;
+  useSurfaceFriction: boolean; // Scale ground rates by the friction of the collider underfoot
+}
+
+export interface LocomotionParams {
+  velocity: { x: number; z: number }; // Current horizontal velocity, updated in place
+  target: { x: number; z: number }; // Horizontal velocity the input asks for
+  maxSpeed: number; // Fastest the player moves on their own, anything above is external
+  grounded: boolean;
+  traction: number; // Surface multiplier for the ground rates
+  airControl: number;
+  config: LocomotionConfig;
+  delta: number; // seconds
+}
+
+export interface JumpConfig {
+  jumpImpulse: number; // Upward impulse on the dynamic body
+  airControl: number; // 0-1, how much of the ground steering is kept in the air
+  coyoteTime: number; // milliseconds after leaving a ledge that a jump still counts
+  jumpBuffer: number; // milliseconds a jump press is remembered before landing
+  jumpCutMultiplier: number; // Rising speed kept when jump is released early, 1 disables variable height
+  maxAirJumps: number; // 1 for a double jump
+}
+
+export interface JumpState {
+  lastGroundedTime: number;
+  lastJumpTime: number;
+  lastJumpPressTime: number;
+  airJumpsUsed: number;
+  rising: boolean; // A jump is rising and can still be cut short
+}
+
 export interface JumpParams {
   jumpPressed: boolean;
+  jumpHeld?: boolean;
   isGrounded: boolean;
   wait: boolean;
   isJumping: boolean;
-  actions: THREE.AnimationAction[];
   controls: React.RefObject<RapierRigidBody | null>;
-  setAction: (action: THREE.AnimationAction) => void;
+  animator?: AnimationStateMachine; // Triggers its 'jump' state, whose length is how long the jump lasts
   setIsJumping: (jumping: boolean) => void;
   setWait: (wait: boolean) => void;
+  onJump?: (airJump: boolean) => void; // Called when a jump actually starts
+  state?: JumpState;
+  config?: JumpConfig;
+  // Vertical velocity access for bodies that ignore impulses, e.g. kinematic ones
+  verticalVelocity?: { get: () => number; set: (value: number) => void };
 }
 
-export interface MovementParams {
-  forward: boolean;
-  backward: boolean;
-  left: boolean;
-  right: boolean;
-  run: boolean;
-  jump: boolean;
-  wait: boolean;
-  isJumping: boolean;
-  actions: THREE.AnimationAction[];
-  setAction: (action: THREE.AnimationAction) => void;
+export interface IKConfig {
+  handGrip: boolean; // Keep the left hand on the weapon
+  aimAlignment: boolean; // Point the right arm and weapon at the crosshair while aiming
+  footPlacement: boolean; // Plant the feet on the ground below them, lowering the pelvis to reach
+  alignFeet: boolean; // Tilt planted feet to the ground's slope
+  aimDistance: number; // m, distance of the point the weapon is aimed at
+  maxStepHeight: number; // m, furthest a foot is raised or lowered
+  blendSpeed: number; // 1/s, how quickly IK fades in and out
+  footSmoothing: number; // 1/s, how quickly foot and pelvis offsets follow the ground
+}
+
+export interface IKState {
+  aimWeight: number;
+  footWeight: number;
+  footOffsets: [left: number, right: number]; // m, ground height under each foot relative to the body
+  footNormals: [left: THREE.Vector3, right: THREE.Vector3];
+  pelvisOffset: number; // m, negative when the pelvis is lowered
+  // Pre-IK local pose of the bones IK changed last frame, restored before the mixer runs so
+  // bones without animation tracks don't accumulate corrections
+  pose: Map<THREE.Bone, { position: THREE.Vector3; quaternion: THREE.Quaternion }>;
+}
+
+export interface IKParams {
+  root: THREE.Object3D; // The character, its facing gives the knee and elbow bend direction
+  bones: BoneResolution['bones'];
+  config: IKConfig;
+  state: IKState;
+  delta: number; // seconds
+  aiming: boolean;
+  aimPoint: THREE.Vector3;
+  leftHandGrip?: [x: number, y: number, z: number];
+  grounded: boolean; // Feet are only planted on the ground
+  feetHeight?: number; // m from the body's origin to the capsule's bottom, where flat ground is
+   
+  world: any; // RAPIER world - using any to avoid version conflicts
+  controls: React.RefObject<RapierRigidBody | null>;
+}
+
+export interface FireControlParams {
+  trigger: TriggerState;
+  weapon: WeaponDefinition;
+  delta: number; // seconds
+  fire: () => boolean; // Fires one shot, returns false if the weapon couldn't fire
+}
+
+export interface HealthParams {
+  store: HealthStore;
+  delta: number; // seconds
+  controls: React.RefObject<RapierRigidBody | null>;
+  spawnPoint: [x: number, y: number, z: number];
+  onDeath?: () => void;
+  onRespawn?: () => void;
+  wasDead: React.MutableRefObject<boolean>;
+}
+
+export interface StanceParams {
+  state: StanceState;
+  config: StanceConfig;
+  crouchHeld: boolean;
+  crouchPressed: boolean;
+  pronePressed: boolean;
+  jumpPressed: boolean;
+  delta: number; // seconds
+   
+  world: any; // RAPIER world - using any to avoid version conflicts
+  controls: React.RefObject<RapierRigidBody | null>;
+  colliderArgs: [height: number, radius: number];
+  onStanceChange?: (stance: Stance) => void;
+}
+
+export interface ReloadParams {
+  ammo: AmmoState;
+  weapon: WeaponDefinition;
+  onReloadEnd?: (weapon: WeaponDefinition, completed: boolean) => void;
 }
 
 export interface RecoilParams {
+  recoil: RecoilConfig;
   recoilActive: React.MutableRefObject<boolean>;
   recoilStartTime: React.MutableRefObject<number>;
-  leftHandBone: React.MutableRefObject<THREE.Bone | null>;
-  rightHandBone: React.MutableRefObject<THREE.Bone | null>;
-  leftHandOriginalRotation: React.MutableRefObject<THREE.Euler>;
-  rightHandOriginalRotation: React.MutableRefObject<THREE.Euler>;
 }
 
 export interface MuzzleFlashParams {
+  muzzleFlash: MuzzleFlashConfig;
   muzzleFlashActive: React.MutableRefObject<boolean>;
   muzzleFlashStartTime: React.MutableRefObject<number>;
   muzzleFlashRef: React.RefObject<THREE.Mesh | null>;
   muzzleFlashLightRef: React.RefObject<THREE.PointLight | null>;
   gunBarrelRef: React.MutableRefObject<THREE.Vector3>;
   group: React.RefObject<THREE.Group | null>;
-  bones: THREE.Bone[];
+  anchor: THREE.Object3D | null; // Bone the flash is offset from, the player group without one
   pitch: number;
   yaw: number;
   camera: THREE.Camera;
 }
 
+// How the camera frames the player in one mode, hip fire or aiming down sights
+export interface CameraViewConfig {
+  distance: number; // m behind the player at level pitch
+  pitchDistance: number; // m further back per unit of sin(pitch), so the camera pulls out looking down
+  height: number; // m above the player's head height at level pitch, before orbiting with the pitch
+  shoulderOffset: number; // m to the player's right, negative for the left shoulder
+  lookAt: 'player' | 'aim'; // Look at the player, or past them along the aim direction
+  lookHeight: number; // m above head height that is looked at, or aimed from
+  fov: number; // degrees
+  zoom: number; // The camera's zoom factor
+  near: number; // m, near clipping plane
+  damping: number; // 0-1, share of the way to its position the camera moves each frame
+}
+
+export interface CameraRigConfig {
+  hip: CameraViewConfig;
+  ads: CameraViewConfig;
+  fovDamping: number; // 0-1, share of the way to its FOV the camera turns each frame
+  pitchLimits: [up: number, down: number]; // radians, looking up is negative
+  shoulderDamping: number; // 0-1, share of a shoulder swap the camera makes each frame
+  autoShoulderSwap: boolean; // Move to the other shoulder while a wall blocks this one
+  shoulderClearance: number; // m of free space needed beside the camera's shoulder
+  collisionRadius: number; // m, radius of the ball swept from the head to the camera
+  collisionPullIn: number; // 0-1, share of the way to an obstacle the camera moves in each frame
+  collisionEaseOut: number; // 0-1, share of the way back out the camera moves each frame once clear
+  collisionIgnoreMass: number; // kg, dynamic bodies lighter than this don't push the camera in, 0 to collide with all
+}
+
+export interface CameraShoulderState {
+  preferred: 1 | -1; // The side picked with the swap action, 1 for the view's own shoulder
+  side: 1 | -1; // The side the camera is heading to, the other one while a wall blocks the preferred side
+  blend: number; // -1 to 1, eases towards side
+  focusDistance: number; // m to whatever the aim view is centred on
+}
+
+export interface CameraCollisionState {
+  pull: number; // m the camera is pulled in from its position by obstacles
+}
+
+export type CameraRigPreset = 'classic-third-person' | 'over-the-shoulder' | 'close-action';
+
+// A preset with some values changed, e.g. { preset: 'over-the-shoulder', ads: { fov: 30 } }
+export interface CameraRigOptions {
+  preset?: CameraRigPreset;
+  hip?: Partial<CameraViewConfig>;
+  ads?: Partial<CameraViewConfig>;
+  fovDamping?: number;
+  pitchLimits?: [up: number, down: number];
+  shoulderDamping?: number;
+  autoShoulderSwap?: boolean;
+  shoulderClearance?: number;
+  collisionRadius?: number;
+  collisionPullIn?: number;
+  collisionEaseOut?: number;
+  collisionIgnoreMass?: number;
+}
+
 export interface CameraParams {
   zoom: React.MutableRefObject<boolean>;
   smoothedPlayerPosition: React.MutableRefObject<THREE.Vector3>;
@@ -143,17 +887,115 @@ export interface CameraParams {
   pitch: number;
   yaw: number;
   camera: THREE.Camera;
+  heightOffset?: number; // Lowers the camera target, e.g. while crouching
+  rig?: CameraRigConfig; // Defaults to the classic third person rig
+  shoulder?: CameraShoulderState; // Side of the shoulder views, the view's own shoulder without it
+  controls?: React.RefObject<RapierRigidBody | null>; // The player's body, ignored by camera rays
+  collision?: CameraCollisionState; // Eases the camera in and out around obstacles, it snaps without
+  collide?: boolean; // Pull the camera in front of obstacles, defaults to true
+  rapier?: RapierModule; // Sweeps a ball for collision, a ray stands in for it without
    
   world?: any; // Optional world for collision detection
 }
 
+// What happens when something comes between the camera and the player
+export interface OcclusionConfig {
+  mode: 'pull-in' | 'fade'; // Move the camera in front of it, or leave the camera and fade it out
+  opacity: number; // 0-1, of faded meshes relative to their own opacity
+  fadeDamping: number; // 0-1, share of the way to its opacity a mesh fades each frame
+  sampleHeights: number[]; // m from head height to the points on the player that must stay visible
+}
+
+// A mesh drawn with translucent copies of its materials while it is faded
+export interface FadedMesh {
+  original: THREE.Material | THREE.Material[];
+  materials: THREE.Material[];
+  opacities: number[]; // The materials' own opacity
+  fade: number; // 0-1, eases towards the configured opacity and back to 1
+}
+
+export interface OcclusionState {
+  faded: Map<THREE.Mesh, FadedMesh>;
+}
+
+export interface OcclusionParams {
+  camera: THREE.Camera;
+  scene: THREE.Object3D; // Searched for meshes between the camera and the player
+  smoothedPlayerPosition: React.MutableRefObject<THREE.Vector3>;
+  heightOffset?: number; // Lowers the sample points, e.g. while crouching
+  ignore?: THREE.Object3D | null; // The player's own meshes, never faded
+  config: OcclusionConfig;
+  state: OcclusionState;
+  active?: boolean; // Fades everything back in when false, e.g. in first person
+}
+
+export type CameraMode = 'third-person' | 'first-person';
+
+// The view from the character's eyes
+export interface FirstPersonConfig {
+  headOffset: [x: number, y: number, z: number]; // m from the head bone to the eyes, in the player's space with +z forward
+  fov: number; // degrees
+  adsFov: number; // degrees while aiming down sights
+  fovDamping: number; // 0-1, share of the way to its FOV the camera turns each frame
+  near: number; // m, near clipping plane
+  hide: 'head' | 'body' | 'none'; // Part of the character left out of the view, the head collapses to its bone
+  armsModelPath?: string; // A separate arms rig drawn in front of the camera, posed like the character's arms
+  armsOffset: [x: number, y: number, z: number]; // m from the camera to the arms rig, in camera space
+  armsScale: number;
+}
+
+export interface FirstPersonCameraParams {
+  camera: THREE.Camera;
+  head: THREE.Object3D | null; // The head bone, eye height above the smoothed position without one
+  smoothedPlayerPosition: React.MutableRefObject<THREE.Vector3>;
+  smoothedCameraPosition: React.MutableRefObject<THREE.Vector3>; // Kept on the eyes, so third person eases out from there
+  playerYRotation: THREE.Quaternion;
+  pitch: number;
+  yaw: number;
+  zoom: React.MutableRefObject<boolean>;
+  heightOffset?: number; // Lowers the fallback eye height, e.g. while crouching
+  config?: FirstPersonConfig;
+}
+
+export interface FirstPersonArmsHandle {
+  update: (camera: THREE.Camera) => void; // Follows the camera and copies the character's arm pose
+}
+
+export interface FirstPersonArmsProps {
+  modelPath: string;
+  bones: BoneResolution['bones']; // The character's bones, whose arms the rig copies
+  boneMap?: BoneMap; // Finds the arms rig's upper arms, the rest is paired by name
+  offset?: [x: number, y: number, z: number];
+  scale?: number;
+}
+
+export interface KinematicMovementParams extends MovementPhysicsParams {
+  controller: CharacterController | null;
+  collider: React.RefObject<RapierCollider | null>;
+  state: KinematicState;
+  config: KinematicControllerConfig;
+  delta: number; // seconds
+   
+  world: any; // RAPIER world - using any to avoid version conflicts
+}
+
 export interface MovementPhysicsParams {
   forward: boolean;
   backward: boolean;
   left: boolean;
   right: boolean;
   run: boolean;
+  speedMultiplier?: number;
   playerYRotation: THREE.Quaternion;
   controls: React.RefObject<RapierRigidBody | null>;
   smoothedPlayerPosition: React.MutableRefObject<THREE.Vector3>;
+  // Follows the ground's slope when given, unless a jump is under way
+  ground?: GroundInfo;
+  groundConfig?: GroundConfig;
+  jumping?: boolean;
+  // Acceleration-based movement when given, otherwise velocity is set outright
+  locomotion?: LocomotionConfig;
+  airborne?: boolean;
+  airControl?: number;
+  delta?: number; // seconds
 }
@@ -1,23 +1,16 @@
 import * as THREE from 'three';
 import React from 'react';
-import { useFBX } from '@react-three/drei';
-
-interface AnimationPaths {
-  idle?: string;
-  walkForward?: string;
-  walkBackward?: string;
-  runForward?: string;
-  runBackward?: string;
-  strafeLeft?: string;
-  strafeRight?: string;
-  jumpStart?: string;
-  jumpEnd?: string;
-}
+import { useLoader } from '@react-three/fiber';
+import { useGLTF } from '@react-three/drei';
+import { FBXLoader } from 'three-stdlib';
+import { DEFAULT_BONE_MAP } from './bones';
+import { retargetClip } from './retarget';
+import type { AnimationClipSource, AnimationPaths, AnimationSetupOptions, AnimationSource } from './types';
 
 // CDN-based default animation paths for zero-friction integration
 const CDN_BASE = 'https://cdn.jsdelivr.net/npm/tps-controls@latest/public';
 
-const DEFAULT_ANIMATIONS: Required<AnimationPaths> = {
+const DEFAULT_ANIMATIONS: AnimationPaths = {
   idle: `${CDN_BASE}/animations/pistol-idle.fbx`,
   walkForward: `${CDN_BASE}/animations/pistol-walk.fbx`,
   walkBackward: `${CDN_BASE}/animations/pistol-walk-backward.fbx`,
@@ -29,53 +22,91 @@ const DEFAULT_ANIMATIONS: Required<AnimationPaths> = {
   jumpEnd: `${CDN_BASE}/animations/pistol-jump-2.fbx`,
 };
 
-export function useAnimationSetup(clone: THREE.Object3D, customAnimations?: AnimationPaths) {
+interface ClipFile {
+  root: THREE.Object3D;
+  animations: THREE.AnimationClip[];
+}
+
+const isGLTF = (url: string) => /\.(glb|gltf)([?#].*)?$/i.test(url);
+
+const toClipSource = (source: AnimationSource): AnimationClipSource =>
+  typeof source === 'string' ? { url: source } : source;
+
+const unique = (urls: string[]) => urls.filter((url, i) => urls.indexOf(url) === i);
+
+export function useAnimationSetup(clone: THREE.Object3D, customAnimations?: AnimationPaths, options: AnimationSetupOptions = {}) {
+  const { embeddedClips, rest = clone, boneMap = DEFAULT_BONE_MAP, retarget = false } = options;
+
   // Merge custom animations with defaults
-  const animationPaths = React.useMemo(() => ({
+  const animationPaths = React.useMemo((): AnimationPaths => ({
     ...DEFAULT_ANIMATIONS,
     ...customAnimations,
   }), [customAnimations]);
 
-  // Import animation from FBX
-  const { animations: idle } = useFBX(animationPaths.idle);
-  const { animations: walkAhead } = useFBX(animationPaths.walkForward);
-  const { animations: walkBackward } = useFBX(animationPaths.walkBackward);
-  const { animations: runAhead } = useFBX(animationPaths.runForward);
-  const { animations: runBackward } = useFBX(animationPaths.runBackward);
-  const { animations: strafeLeft } = useFBX(animationPaths.strafeLeft);
-  const { animations: strafeRight } = useFBX(animationPaths.strafeRight);
-  const { animations: jump1 } = useFBX(animationPaths.jumpStart);
-  const { animations: jump2 } = useFBX(animationPaths.jumpEnd);
-
-  // Clone and rename all animations in a single useMemo
-  const animationClips = React.useMemo(() => {
-    const clips = [
-      idle[0].clone(),
-      walkAhead[0].clone(),
-      walkBackward[0].clone(),
-      runAhead[0].clone(),
-      runBackward[0].clone(),
-      strafeLeft[0].clone(),
-      strafeRight[0].clone(),
-      jump1[0].clone(),
-      jump2[0].clone()
-    ];
-
-    clips[0].name = 'idle';
-    clips[1].name = 'forwardWalk';
-    clips[2].name = 'backwardWalk';
-    clips[3].name = 'runForward';
-    clips[4].name = 'runBackward';
-    clips[5].name = 'strafeLeft';
-    clips[6].name = 'strafeRight';
-    clips[7].name = 'jump1';
-    clips[8].name = 'jump2';
-
-    return clips;
-  }, [idle, walkAhead, walkBackward, runAhead, runBackward, strafeLeft, strafeRight, jump1, jump2]);
+  // Every named clip is loaded, including clips for custom animation states
+  const clipNames = React.useMemo(
+    () => Object.keys(animationPaths).filter(name => !!animationPaths[name]),
+    [animationPaths]
+  );
+  const sources = React.useMemo(
+    () => clipNames.map(name => toClipSource(animationPaths[name] as AnimationSource)),
+    [clipNames, animationPaths]
+  );
+
+  // FBX and glTF files go through their own loaders, each file once
+  const urls = React.useMemo(() => {
+    const files = sources.map(source => source.url).filter((url): url is string => !!url);
+    return { fbx: unique(files.filter(url => !isGLTF(url))), gltf: unique(files.filter(isGLTF)) };
+  }, [sources]);
+  const fbxFiles = useLoader(FBXLoader, urls.fbx);
+  const gltfFiles = useGLTF(urls.gltf);
+
+  // Pick each clip by name, or the file's first, retarget it if it was made for another rig
+  // and clone it under the name it was given
+  const { animationClips, missing } = React.useMemo(() => {
+    const files: Record<string, ClipFile> = {};
+    urls.fbx.forEach((url, i) => {
+      files[url] = { root: fbxFiles[i], animations: fbxFiles[i].animations };
+    });
+    urls.gltf.forEach((url, i) => {
+      files[url] = { root: gltfFiles[i].scene, animations: gltfFiles[i].animations };
+    });
+    const model: ClipFile = { root: rest, animations: embeddedClips ?? [] };
+
+    // Clips shipped with the model are also available under their own names
+    const clips: Record<string, THREE.AnimationClip> = {};
+    model.animations.forEach(clip => {
+      clips[clip.name] = clip;
+    });
+
+    const notFound: string[] = [];
+    clipNames.forEach((name, i) => {
+      const source = sources[i];
+      const file = source.url ? files[source.url] : model;
+      const clip = source.clip ? file?.animations.find(c => c.name === source.clip) : file?.animations[0];
+      if (!clip) {
+        const available = file?.animations.map(c => c.name).join(', ') || 'none';
+        const wanted = source.clip ? `no clip named ${source.clip}` : 'no clips';
+        notFound.push(`  ${name}: ${wanted} in ${source.url ?? 'the model'} (clips: ${available})`);
+        return;
+      }
+
+      const sourceRig = source.retarget ?? (source.url ? retarget : false);
+      clips[name] = sourceRig
+        ? retargetClip(clip, file.root, rest, sourceRig === true ? DEFAULT_BONE_MAP : { ...DEFAULT_BONE_MAP, ...sourceRig }, boneMap)
+        : clip.clone();
+      clips[name].name = name;
+    });
+    return { animationClips: clips, missing: notFound };
+  }, [clipNames, sources, urls, fbxFiles, gltfFiles, embeddedClips, rest, boneMap, retarget]);
+
+  React.useEffect(() => {
+    if (missing.length > 0) {
+      console.warn([`tps-controls: ${missing.length} animation clip(s) not found, their states are skipped:`, ...missing].join('\n'));
+    }
+  }, [missing]);
 
   const mixer = React.useMemo(() => new THREE.AnimationMixer(clone), [clone]);
-  const actions = React.useMemo(() => [] as THREE.AnimationAction[], []);
 
-  return { actions, mixer, animationClips };
+  return { mixer, animationClips };
 }
@@ -0,0 +1,60 @@
+import type { WeaponDefinition } from './types';
+import {
+  MUZZLE_FLASH_DURATION,
+  MUZZLE_FLASH_LIGHT_DISTANCE,
+  MUZZLE_FLASH_LIGHT_INTENSITY,
+  RECOIL_DURATION,
+  RECOIL_STRENGTH
+} from './constants';
+
+// CDN-based default assets for zero-friction integration
+const CDN_BASE = 'https://cdn.jsdelivr.net/npm/tps-controls@latest/public';
+
+export const DEFAULT_WEAPON: WeaponDefinition = {
+  id: 'pistol',
+  name: 'Pistol',
+  fireRate: 600,
+  range: 100,
+  impulse: 0.15, // Applied once per pellet
+  damage: 25,
+  spread: 0,
+  pellets: 1,
+  recoil: {
+    strength: RECOIL_STRENGTH,
+    duration: RECOIL_DURATION,
+  },
+  muzzleFlash: {
+    offset: [0, 0.2, 1],
+    size: 0.5,
+    duration: MUZZLE_FLASH_DURATION,
+    lightIntensity: MUZZLE_FLASH_LIGHT_INTENSITY,
+    lightDistance: MUZZLE_FLASH_LIGHT_DISTANCE,
+    lightColor: 0xffa500,
+  },
+  shotSound: `${CDN_BASE}/sfx/pistol-shot.mp3`,
+  magazineSize: 12,
+  reserveAmmo: Infinity,
+  reloadTime: 1500,
+  autoReload: true,
+};
+
+// Builds a weapon on top of the default pistol, merging nested configs
+export function defineWeapon(
+  weapon: Partial<WeaponDefinition> & Pick<WeaponDefinition, 'id'>
+): WeaponDefinition {
+  return {
+    ...DEFAULT_WEAPON,
+    ...weapon,
+    recoil: { ...DEFAULT_WEAPON.recoil, ...weapon.recoil },
+    muzzleFlash: { ...DEFAULT_WEAPON.muzzleFlash, ...weapon.muzzleFlash },
+  };
+}
+
+// Minimum time between two shots in milliseconds
+export function getShotInterval(weapon: WeaponDefinition): number {
+  return 60000 / Math.max(weapon.fireRate, 1);
+}
+
+export function defaultRecoilCurve(progress: number): number {
+  return Math.sin(progress * Math.PI);
+}